@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { UsageError, parseCliArgs, type ConvertCommand } from "./args";
+
+const convert = (...argv: string[]) =>
+  parseCliArgs(["convert", ...argv]) as ConvertCommand;
+
+describe("parseCliArgs", () => {
+  it("shows help without arguments or with --help", () => {
+    expect(parseCliArgs([])).toEqual({ command: "help" });
+    expect(parseCliArgs(["convert", "in", "out", "-h"])).toEqual({ command: "help" });
+  });
+
+  it("treats the last path as the output directory", () => {
+    const command = convert("a.jpg", "shots/", "out/");
+    expect(command.inputs).toEqual(["a.jpg", "shots/"]);
+    expect(command.outputDir).toBe("out/");
+  });
+
+  it("starts from the web app defaults", () => {
+    const command = convert("in", "out");
+    expect(command.settings.colors).toEqual({ shadow: "#165027", highlight: "#f99fd2" });
+    expect(command.exportOptions.format).toBe("jpeg");
+    expect(command).toMatchObject({ recursive: false, dryRun: false, json: false });
+  });
+
+  it("normalizes colors with or without #", () => {
+    const command = convert("in", "out", "--shadow", "0B3318", "--highlight", "#fff");
+    expect(command.settings.colors).toEqual({ shadow: "#0b3318", highlight: "#ffffff" });
+  });
+
+  it("looks up palettes by slug and lets colors override them", () => {
+    const command = convert("in", "out", "--palette", "plum-peach", "--shadow", "000");
+    expect(command.settings.colors).toEqual({ shadow: "#000000", highlight: "#f7c59f" });
+  });
+
+  it("switches to the gradient map when stops are given", () => {
+    const command = convert("in", "out", "--stops", "165027@0, fff@0.5,f99fd2@1");
+    expect(command.settings.mode).toBe("gradient");
+    expect(command.settings.gradient).toEqual([
+      { color: "#165027", position: 0 },
+      { color: "#ffffff", position: 0.5 },
+      { color: "#f99fd2", position: 1 },
+    ]);
+  });
+
+  it("reads the blend space for gradients", () => {
+    expect(convert("in", "out").settings.interpolation).toBe("srgb");
+    expect(convert("in", "out", "--blend", "oklab").settings.interpolation).toBe("oklab");
+  });
+
+  it("parses encoding and flag options", () => {
+    const command = convert(
+      "in", "out", "--format", "jpg", "--quality", "0.5", "--max-size", "1080",
+      "--name", "{name}-{mode}", "-r", "-n", "--json"
+    );
+    expect(command.exportOptions).toMatchObject({
+      format: "jpeg",
+      quality: 0.5,
+      maxDimension: 1080,
+      fileNameTemplate: "{name}-{mode}",
+    });
+    expect(command).toMatchObject({ recursive: true, dryRun: true, json: true });
+  });
+
+  it.each([
+    [["in", "out", "--shadow", "green"]],
+    [["in", "out", "--palette", "nope"]],
+    [["in", "out", "--format", "gif"]],
+    [["in", "out", "--quality", "90"]],
+    [["in", "out", "--max-size", "0"]],
+    [["in", "out", "--mode", "sepia"]],
+    [["in", "out", "--blend", "hsl"]],
+    [["in", "out", "--stops", "165027@0"]],
+    [["in", "out", "--stops", "165027,f99fd2"]],
+    [["in", "out", "--stops", "165027@0,f99fd2@2"]],
+    [["in", "out", "--bogus"]],
+    [["out"]],
+  ])("rejects %j", (argv) => {
+    expect(() => convert(...argv)).toThrow(UsageError);
+  });
+
+  it("rejects unknown commands", () => {
+    expect(() => parseCliArgs(["resize", "in", "out"])).toThrow(/Unknown command/);
+  });
+});
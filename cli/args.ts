@@ -0,0 +1,246 @@
+import { parseArgs } from "node:util";
+import {
+  COLOR_INTERPOLATIONS,
+  DEFAULT_EFFECT_SETTINGS,
+  EFFECT_MODES,
+  LUMINANCE_FORMULAS,
+  MAX_GRADIENT_STOPS,
+  MIN_GRADIENT_STOPS,
+  PALETTES,
+  parseHex,
+  toHex,
+  type ColorInterpolation,
+  type EffectMode,
+  type EffectSettings,
+  type GradientStop,
+  type LuminanceFormula,
+} from "../src/lib";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportOptions,
+} from "../src/export";
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export interface ConvertCommand {
+  command: "convert";
+  /** Files, directories or glob patterns */
+  inputs: string[];
+  outputDir: string;
+  settings: EffectSettings;
+  exportOptions: ExportOptions;
+  recursive: boolean;
+  dryRun: boolean;
+  json: boolean;
+}
+
+export type CliCommand = ConvertCommand | { command: "help" };
+
+export const USAGE = `Usage: brave-pink convert <input...> <output-dir> [options]
+
+Inputs can be image files, directories or glob patterns. Quote globs so the
+shell passes them through, e.g. "shots/**/*.png".
+
+Options:
+  --shadow <hex>         Shadow color, leading # optional (default ${DEFAULT_EFFECT_SETTINGS.colors.shadow})
+  --highlight <hex>      Highlight color, leading # optional (default ${DEFAULT_EFFECT_SETTINGS.colors.highlight})
+  --palette <name>       Built-in palette, e.g. "brave-pink-hero-green"
+  --stops <list>         Gradient map stops as color@position (0-1), e.g.
+                         165027@0,ffffff@0.5,f99fd2@1; implies --mode gradient
+  --mode <mode>          ${EFFECT_MODES.map((m) => m.value).join(" | ")} (default ${DEFAULT_EFFECT_SETTINGS.mode})
+  --luminance <formula>  ${LUMINANCE_FORMULAS.map((f) => f.value).join(" | ")} (default ${DEFAULT_EFFECT_SETTINGS.tone.luminance})
+  --blend <space>        Space colors are mixed in: ${COLOR_INTERPOLATIONS.map((i) => i.value).join(" | ")}
+                         (default ${DEFAULT_EFFECT_SETTINGS.interpolation})
+  --format <format>      ${EXPORT_FORMATS.map((f) => f.value).join(" | ")} (default ${DEFAULT_EXPORT_OPTIONS.format})
+  --quality <0-1>        JPEG/WebP quality (default ${DEFAULT_EXPORT_OPTIONS.quality})
+  --max-size <px>        Downscale so the longest edge fits
+  --name <template>      Output name; tokens {name} {mode} {format} {date}
+                         (default "${DEFAULT_EXPORT_OPTIONS.fileNameTemplate}")
+  -r, --recursive        Include images in subdirectories
+  -n, --dry-run          List planned outputs without writing anything
+  --json                 Print a JSON summary to stdout
+  -h, --help             Show this help`;
+
+const slug = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+const parseColor = (value: string, option: string) => {
+  try {
+    return toHex(parseHex(value));
+  } catch {
+    throw new UsageError(`--${option} expects a hex color like 165027 or "#f99fd2", got "${value}"`);
+  }
+};
+
+const parseChoice = <T extends string>(
+  value: string,
+  option: string,
+  choices: readonly T[]
+): T => {
+  if (!choices.includes(value as T)) {
+    throw new UsageError(`--${option} must be one of ${choices.join(", ")}, got "${value}"`);
+  }
+  return value as T;
+};
+
+const parseNumber = (value: string, option: string, min: number, max: number) => {
+  const number = Number(value);
+  if (value.trim() === "" || !Number.isFinite(number) || number < min || number > max) {
+    throw new UsageError(`--${option} must be a number from ${min} to ${max}, got "${value}"`);
+  }
+  return number;
+};
+
+const parseStops = (value: string): GradientStop[] => {
+  const stops = value.split(",").map((entry) => {
+    const [color, position] = entry.trim().split("@");
+    if (position === undefined) {
+      throw new UsageError(`--stops entries look like "f99fd2@1", got "${entry}"`);
+    }
+    return {
+      color: parseColor(color, "stops"),
+      position: parseNumber(position, "stops", 0, 1),
+    };
+  });
+  if (stops.length < MIN_GRADIENT_STOPS || stops.length > MAX_GRADIENT_STOPS) {
+    throw new UsageError(
+      `--stops needs ${MIN_GRADIENT_STOPS} to ${MAX_GRADIENT_STOPS} stops, got ${stops.length}`
+    );
+  }
+  return stops;
+};
+
+/**
+ * Turns command line arguments (without the node and script paths) into a
+ * command. Settings start from the web app's defaults.
+ * @throws UsageError for unknown options or invalid values.
+ */
+export const parseCliArgs = (argv: string[]): CliCommand => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        shadow: { type: "string" },
+        highlight: { type: "string" },
+        palette: { type: "string" },
+        stops: { type: "string" },
+        mode: { type: "string" },
+        luminance: { type: "string" },
+        blend: { type: "string" },
+        format: { type: "string" },
+        quality: { type: "string" },
+        "max-size": { type: "string" },
+        name: { type: "string" },
+        recursive: { type: "boolean", short: "r", default: false },
+        "dry-run": { type: "boolean", short: "n", default: false },
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help || positionals.length === 0) return { command: "help" };
+
+  const [command, ...paths] = positionals;
+  if (command !== "convert") throw new UsageError(`Unknown command "${command}"`);
+  if (paths.length < 2) {
+    throw new UsageError("convert needs at least one input and an output directory");
+  }
+
+  const colors = { ...DEFAULT_EFFECT_SETTINGS.colors };
+  if (values.palette !== undefined) {
+    const palette = PALETTES.find((p) => slug(p.name) === slug(values.palette!));
+    if (!palette) {
+      throw new UsageError(
+        `Unknown palette "${values.palette}". Available: ${PALETTES.map((p) => slug(p.name)).join(", ")}`
+      );
+    }
+    colors.shadow = palette.shadow;
+    colors.highlight = palette.highlight;
+  }
+  if (values.shadow !== undefined) colors.shadow = parseColor(values.shadow, "shadow");
+  if (values.highlight !== undefined) {
+    colors.highlight = parseColor(values.highlight, "highlight");
+  }
+
+  const gradient =
+    values.stops !== undefined ? parseStops(values.stops) : DEFAULT_EFFECT_SETTINGS.gradient;
+
+  const settings: EffectSettings = {
+    ...DEFAULT_EFFECT_SETTINGS,
+    colors,
+    gradient,
+    mode: values.mode
+      ? parseChoice<EffectMode>(
+          values.mode,
+          "mode",
+          EFFECT_MODES.map((m) => m.value)
+        )
+      : values.stops !== undefined
+        ? "gradient"
+        : DEFAULT_EFFECT_SETTINGS.mode,
+    tone: {
+      ...DEFAULT_EFFECT_SETTINGS.tone,
+      luminance: values.luminance
+        ? parseChoice<LuminanceFormula>(
+            values.luminance,
+            "luminance",
+            LUMINANCE_FORMULAS.map((f) => f.value)
+          )
+        : DEFAULT_EFFECT_SETTINGS.tone.luminance,
+    },
+    interpolation: values.blend
+      ? parseChoice<ColorInterpolation>(
+          values.blend,
+          "blend",
+          COLOR_INTERPOLATIONS.map((i) => i.value)
+        )
+      : DEFAULT_EFFECT_SETTINGS.interpolation,
+  };
+
+  const exportOptions: ExportOptions = {
+    ...DEFAULT_EXPORT_OPTIONS,
+    format: values.format
+      ? parseChoice<ExportFormat>(
+          values.format.toLowerCase().replace(/^jpg$/, "jpeg"),
+          "format",
+          EXPORT_FORMATS.map((f) => f.value)
+        )
+      : DEFAULT_EXPORT_OPTIONS.format,
+    quality:
+      values.quality !== undefined
+        ? parseNumber(values.quality, "quality", 0, 1)
+        : DEFAULT_EXPORT_OPTIONS.quality,
+    maxDimension:
+      values["max-size"] !== undefined
+        ? Math.round(parseNumber(values["max-size"], "max-size", 1, 65535))
+        : null,
+    fileNameTemplate: values.name ?? DEFAULT_EXPORT_OPTIONS.fileNameTemplate,
+  };
+
+  return {
+    command: "convert",
+    inputs: paths.slice(0, -1),
+    outputDir: paths[paths.length - 1],
+    settings,
+    exportOptions,
+    recursive: values.recursive,
+    dryRun: values["dry-run"],
+    json: values.json,
+  };
+};
@@ -0,0 +1,48 @@
+import { USAGE, UsageError, parseCliArgs } from "./args";
+import { runConvert, type ConvertResult } from "./convert";
+
+const formatKilobytes = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+
+const describe = (result: ConvertResult) => {
+  switch (result.status) {
+    case "converted":
+      return `✓ ${result.input} → ${result.output} (${result.width}x${result.height}, ${formatKilobytes(result.bytes ?? 0)})`;
+    case "planned":
+      return `• ${result.input} → ${result.output}`;
+    case "failed":
+      return `✗ ${result.input}: ${result.error}`;
+  }
+};
+
+const main = async (argv: string[]) => {
+  const command = parseCliArgs(argv);
+  if (command.command === "help") {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const summary = await runConvert(command, (result, index, total) => {
+    // Progress goes to stderr so --json output stays parseable
+    if (!command.json) console.error(`[${index + 1}/${total}] ${describe(result)}`);
+  });
+
+  if (command.json) {
+    console.log(JSON.stringify(summary, null, 2));
+  } else if (summary.dryRun) {
+    console.error(`Dry run: ${summary.files.length} file(s) would be written`);
+  } else {
+    console.error(`Converted ${summary.converted}, failed ${summary.failed}`);
+  }
+  return summary.failed > 0 ? 1 : 0;
+};
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: Error) => {
+    console.error(`brave-pink: ${error.message}`);
+    if (error instanceof UsageError) console.error("Run brave-pink --help for usage.");
+    process.exitCode = error instanceof UsageError ? 2 : 1;
+  }
+);
@@ -0,0 +1,113 @@
+import { mkdtemp, mkdir, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_EFFECT_SETTINGS } from "../src/lib";
+import { DEFAULT_EXPORT_OPTIONS } from "../src/export";
+import { collectInputs, runConvert } from "./convert";
+
+let root: string;
+
+const solid = (file: string, color: string, width = 4, height = 2) =>
+  sharp({ create: { width, height, channels: 3, background: color } })
+    .png()
+    .toFile(path.join(root, file));
+
+const options = {
+  settings: {
+    ...DEFAULT_EFFECT_SETTINGS,
+    colors: { shadow: "#102030", highlight: "#f0e0d0" },
+  },
+  exportOptions: { ...DEFAULT_EXPORT_OPTIONS, format: "png" as const },
+  recursive: false,
+  dryRun: false,
+};
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), "brave-pink-"));
+  await mkdir(path.join(root, "in/nested"), { recursive: true });
+  await solid("in/white.png", "#ffffff");
+  await solid("in/black.png", "#000000");
+  await solid("in/nested/gray.png", "#808080");
+  await writeFile(path.join(root, "in/notes.txt"), "not an image");
+});
+
+afterEach(() => rm(root, { recursive: true, force: true }));
+
+describe("collectInputs", () => {
+  it("lists only top-level images unless recursive", async () => {
+    const dir = path.join(root, "in");
+    const flat = await collectInputs([dir], false);
+    expect(flat.map((f) => f.relative)).toEqual(["black.png", "white.png"]);
+
+    const deep = await collectInputs([dir], true);
+    expect(deep.map((f) => f.relative).sort()).toEqual([
+      "black.png",
+      "nested/gray.png",
+      "white.png",
+    ]);
+  });
+
+  it("expands globs and removes duplicates", async () => {
+    const files = await collectInputs(
+      [path.join(root, "in/**/*.png"), path.join(root, "in/white.png")],
+      false
+    );
+    expect(files).toHaveLength(3);
+  });
+
+  it("fails when an input matches nothing", async () => {
+    await expect(collectInputs([path.join(root, "in/*.gif")], false)).rejects.toThrow(
+      /No images found/
+    );
+  });
+});
+
+describe("runConvert", () => {
+  it("writes duotone images mirroring subdirectories", async () => {
+    const out = path.join(root, "out");
+    const summary = await runConvert({
+      ...options,
+      inputs: [path.join(root, "in")],
+      outputDir: out,
+      recursive: true,
+    });
+
+    expect(summary).toMatchObject({ converted: 3, failed: 0, dryRun: false });
+    expect((await readdir(out)).sort()).toEqual([
+      "black-duotone.png",
+      "nested",
+      "white-duotone.png",
+    ]);
+
+    const { data } = await sharp(path.join(out, "white-duotone.png"))
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    expect(Array.from(data.subarray(0, 3))).toEqual([0xf0, 0xe0, 0xd0]);
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const out = path.join(root, "out");
+    const summary = await runConvert({
+      ...options,
+      inputs: [path.join(root, "in")],
+      outputDir: out,
+      dryRun: true,
+    });
+
+    expect(summary.files.map((f) => f.status)).toEqual(["planned", "planned"]);
+    await expect(readdir(out)).rejects.toThrow();
+  });
+
+  it("reports unreadable files and keeps going", async () => {
+    const summary = await runConvert({
+      ...options,
+      inputs: [path.join(root, "in/notes.txt"), path.join(root, "in/white.png")],
+      outputDir: path.join(root, "out"),
+    });
+
+    expect(summary).toMatchObject({ converted: 1, failed: 1 });
+    expect(summary.files[0].error).toBeTruthy();
+  });
+});
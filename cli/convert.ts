@@ -0,0 +1,227 @@
+import { mkdir, stat } from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+import { glob, isDynamicPattern } from "tinyglobby";
+import { applyEffect, type EffectSettings } from "../src/lib";
+import { buildFileName, type ExportOptions } from "../src/export";
+
+// Same still formats the web app accepts; sharp reads the first frame of a
+// GIF, so animations come out as a single still here
+const IMAGE_PATTERN = "*.{jpg,jpeg,png,webp,gif}";
+
+export interface InputFile {
+  /** Absolute path of the source image */
+  path: string;
+  /** Path relative to the input it was found under; kept in the output */
+  relative: string;
+}
+
+export interface ConvertResult {
+  input: string;
+  output: string;
+  status: "converted" | "planned" | "failed";
+  width?: number;
+  height?: number;
+  bytes?: number;
+  error?: string;
+}
+
+export interface ConvertSummary {
+  dryRun: boolean;
+  outputDir: string;
+  settings: EffectSettings;
+  format: ExportOptions["format"];
+  converted: number;
+  failed: number;
+  files: ConvertResult[];
+}
+
+const isDirectory = async (target: string) => {
+  try {
+    return (await stat(target)).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Expands files, directories and glob patterns into a sorted, de-duplicated
+ * list of images. Directories only contribute JPEG, PNG, WebP and GIF files, and
+ * only their top level unless `recursive` is set.
+ * @throws Error when an input matches nothing at all.
+ */
+export const collectInputs = async (
+  inputs: string[],
+  recursive: boolean
+): Promise<InputFile[]> => {
+  const found = new Map<string, InputFile>();
+
+  for (const input of inputs) {
+    let matches: InputFile[];
+
+    if (await isDirectory(input)) {
+      const files = await glob(recursive ? `**/${IMAGE_PATTERN}` : IMAGE_PATTERN, {
+        cwd: input,
+        caseSensitiveMatch: false,
+      });
+      matches = files.map((file) => ({
+        path: path.resolve(input, file),
+        relative: file,
+      }));
+    } else if (isDynamicPattern(input)) {
+      const files = await glob(input, { absolute: true, caseSensitiveMatch: false });
+      matches = files.map((file) => ({ path: file, relative: path.basename(file) }));
+    } else {
+      // Plain files are passed through; sharp reports anything it can't read
+      matches = [{ path: path.resolve(input), relative: path.basename(input) }];
+    }
+
+    if (matches.length === 0) throw new Error(`No images found for "${input}"`);
+    for (const match of matches) {
+      if (!found.has(match.path)) found.set(match.path, match);
+    }
+  }
+
+  return [...found.values()].sort((a, b) => a.path.localeCompare(b.path));
+};
+
+// Appends " (2)", " (3)"... before the extension until the path is free
+const uniquePath = (file: string, taken: Set<string>) => {
+  if (!taken.has(file)) return file;
+  const { dir, name, ext } = path.parse(file);
+  let n = 2;
+  while (taken.has(path.join(dir, `${name} (${n})${ext}`))) n++;
+  return path.join(dir, `${name} (${n})${ext}`);
+};
+
+/**
+ * Works out where each input is written, mirroring the subdirectories it was
+ * found in and naming it like the web app's download.
+ */
+export const planOutputs = (
+  files: InputFile[],
+  outputDir: string,
+  settings: EffectSettings,
+  exportOptions: ExportOptions
+) => {
+  const taken = new Set<string>();
+  return files.map((file) => {
+    const name = buildFileName(exportOptions.fileNameTemplate, {
+      originalName: path.basename(file.relative),
+      mode: settings.mode,
+      format: exportOptions.format,
+    });
+    const output = uniquePath(
+      path.resolve(outputDir, path.dirname(file.relative), name),
+      taken
+    );
+    taken.add(output);
+    return { input: file.path, output };
+  });
+};
+
+/**
+ * Runs one image through the same pipeline as the web worker: orientation
+ * applied, optional downscale, the shared effect, then encoding. Metadata is
+ * not carried over.
+ */
+export const convertFile = async (
+  input: string,
+  output: string,
+  settings: EffectSettings,
+  exportOptions: ExportOptions
+) => {
+  let image = sharp(input).rotate();
+  if (exportOptions.maxDimension) {
+    image = image.resize({
+      width: exportOptions.maxDimension,
+      height: exportOptions.maxDimension,
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+  }
+
+  const { data, info } = await image
+    .toColourspace("srgb")
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  applyEffect(
+    {
+      data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length),
+      width: info.width,
+      height: info.height,
+    },
+    settings
+  );
+
+  let result = sharp(data, {
+    raw: { width: info.width, height: info.height, channels: 4 },
+  });
+  const quality = Math.round(exportOptions.quality * 100);
+  switch (exportOptions.format) {
+    case "jpeg":
+      // JPEG has no alpha; match the web export's white background
+      result = result.flatten({ background: "#ffffff" }).jpeg({ quality });
+      break;
+    case "webp":
+      result = result.webp({ quality });
+      break;
+    case "png":
+      result = result.png();
+      break;
+  }
+
+  await mkdir(path.dirname(output), { recursive: true });
+  const written = await result.toFile(output);
+  return { width: info.width, height: info.height, bytes: written.size };
+};
+
+/**
+ * Converts every input in turn, continuing past failures.
+ * @param onResult - Called after each file, e.g. to print progress.
+ */
+export const runConvert = async (
+  options: {
+    inputs: string[];
+    outputDir: string;
+    settings: EffectSettings;
+    exportOptions: ExportOptions;
+    recursive: boolean;
+    dryRun: boolean;
+  },
+  onResult?: (result: ConvertResult, index: number, total: number) => void
+): Promise<ConvertSummary> => {
+  const { outputDir, settings, exportOptions, dryRun } = options;
+  const files = await collectInputs(options.inputs, options.recursive);
+  const plan = planOutputs(files, outputDir, settings, exportOptions);
+  const results: ConvertResult[] = [];
+
+  for (const [index, { input, output }] of plan.entries()) {
+    let result: ConvertResult;
+    if (dryRun) {
+      result = { input, output, status: "planned" };
+    } else if (input === output) {
+      result = { input, output, status: "failed", error: "Output would overwrite the input" };
+    } else {
+      try {
+        const info = await convertFile(input, output, settings, exportOptions);
+        result = { input, output, status: "converted", ...info };
+      } catch (error) {
+        result = { input, output, status: "failed", error: (error as Error).message };
+      }
+    }
+    results.push(result);
+    onResult?.(result, index, plan.length);
+  }
+
+  return {
+    dryRun,
+    outputDir: path.resolve(outputDir),
+    settings,
+    format: exportOptions.format,
+    converted: results.filter((r) => r.status === "converted").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    files: results,
+  };
+};
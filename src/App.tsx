@@ -1,121 +1,509 @@
-import React, { useState, useCallback, useRef } from "react";
+import React, { useState, useCallback, useRef, useEffect } from "react";
+import { canCopyImages, copyImageToClipboard } from "./clipboard";
+import { AnimationPanel } from "./components/animation-panel";
+import { BatchQueue } from "./components/batch-queue";
+import { CameraCapture } from "./components/camera-capture";
+import { ColorPicker } from "./components/color-picker";
+import { CropEditor } from "./components/crop-editor";
+import { ErrorMessages, type ErrorEntry } from "./components/error-messages";
+import { CompareSlider } from "./components/compare-slider";
+import { ExportPanel } from "./components/export-panel";
+import { GpuPreview } from "./components/gpu-preview";
+import { GradientEditor } from "./components/gradient-editor";
+import { MaskEditor } from "./components/mask-editor";
+import { PaletteSuggestions } from "./components/palette-suggestions";
+import { PosterComposer } from "./components/poster-composer";
+import { PresetPanel } from "./components/preset-panel";
+import { ToneControls } from "./components/tone-controls";
+import { renderCropPreview } from "./crop";
+import { downloadBlob } from "./download";
+import { droppedFiles } from "./dropped-files";
+import { readExifFromBlob, summarizeExif, type MetadataSummary } from "./exif";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  buildFileName,
+  type EncodeOptions,
+  type ExportOptions,
+} from "./export";
+import { supportsGpuPreview } from "./gl/duotone-renderer";
+import { useBatchQueue } from "./hooks/use-batch-queue";
+import { canUseCamera } from "./hooks/use-camera";
+import { useHistory } from "./hooks/use-history";
+import {
+  COLOR_INTERPOLATIONS,
+  DEFAULT_CROP,
+  DEFAULT_EFFECT_SETTINGS,
+  DEFAULT_MASK,
+  DEFAULT_POSTER,
+  EFFECT_MODES,
+  PALETTES,
+  decodeSettingsHash,
+  encodeSettingsHash,
+  isColorBlindSafe,
+  isPosterActive,
+  settingsEqual,
+  type ClassicParams,
+  type ColorInterpolation,
+  type CropSettings,
+  type DuotoneColors,
+  type EffectSettings,
+  type MaskSettings,
+  type Poster,
+} from "./lib";
+import { composePoster } from "./poster";
+import { isAbortError, processImageInWorker } from "./process-image";
+import { SHARED_PARAM, takeSharedFiles } from "./share-target";
+import {
+  ACCEPTED_TYPES,
+  CLIP_TYPES,
+  ImageError,
+  detectMediaKind,
+  toImageError,
+  validateImageFile,
+  type MediaKind,
+} from "./validation";
 
-// --- Applies a duotone effect to an image source ---
-const applyDuotoneEffect = async (src: string): Promise<string | null> => {
-  return new Promise((resolve) => {
-    const canvas = document.createElement("canvas");
-    const ctx = canvas.getContext("2d");
+const CLASSIC_CHANNELS: { name: keyof ClassicParams; label: string }[] = [
+  { name: "redMultiplier", label: "Red Multiplier" },
+  { name: "greenMultiplier", label: "Green Multiplier" },
+  { name: "blueMultiplier", label: "Blue Multiplier" },
+];
 
-    if (!ctx) {
-      console.error("Canvas context not available");
-      resolve(null);
-      return;
-    }
+// While the GPU preview is live, wait for sliders to settle before the
+// full-resolution CPU render that feeds downloads
+const CPU_RENDER_DELAY_MS = 400;
 
-    const img = new Image();
-    img.crossOrigin = "Anonymous";
+// Longest edge of the cropped original shown next to the result
+const BEFORE_PREVIEW_MAX_DIMENSION = 2048;
 
-    img.onload = () => {
-      try {
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx.drawImage(img, 0, 0);
-
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        const data = imageData.data;
-
-        const hexToRgb = (hex: string) => {
-          const r = parseInt(hex.substring(1, 3), 16);
-          const g = parseInt(hex.substring(3, 5), 16);
-          const b = parseInt(hex.substring(5, 7), 16);
-          return { r, g, b };
-        };
-
-        const highlightColor = hexToRgb("#f99fd2");
-        const shadowColor = hexToRgb("#165027");
-
-        for (let i = 0; i < data.length; i += 4) {
-          const avg = (data[i] + data[i + 1] + data[i + 2]) / 3;
-          const ratio = avg / 255;
-
-          data[i] = Math.min(
-            255,
-            shadowColor.r + (highlightColor.r - shadowColor.r) * ratio
-          );
-          data[i + 1] = Math.min(
-            255,
-            shadowColor.g + (highlightColor.g - shadowColor.g) * ratio
-          );
-          data[i + 2] = Math.min(
-            255,
-            shadowColor.b + (highlightColor.b - shadowColor.b) * ratio
-          );
-        }
+// Browsers throttle history updates, so the share hash trails slider drags
+const HASH_SYNC_DELAY_MS = 300;
+
+// --- Main App ---
+export default function App() {
+  const [originalImage, setOriginalImage] = useState<Blob | null>(null);
+  // Crops and masks belong to one photo, unlike the look in `settings`
+  const [crop, setCrop] = useState<CropSettings>(DEFAULT_CROP);
+  const [mask, setMask] = useState<MaskSettings>(DEFAULT_MASK);
+  // The original as framed by the crop, for comparing and painting masks
+  const [beforeImage, setBeforeImage] = useState<{ url: string; aspect: number } | null>(
+    null
+  );
+  // A poster layout is reused across photos, like a campaign template
+  const [poster, setPoster] = useState<Poster>(DEFAULT_POSTER);
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [duotoneImage, setDuotoneImage] = useState<string | null>(null);
+  // A shared link's look wins over the defaults
+  const {
+    value: settings,
+    set: setSettings,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useHistory<EffectSettings>(
+    () => decodeSettingsHash(window.location.hash) ?? DEFAULT_EFFECT_SETTINGS
+  );
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(
+    DEFAULT_EXPORT_OPTIONS
+  );
+  const [metadataSummary, setMetadataSummary] =
+    useState<MetadataSummary | null>(null);
+  const [copyStatus, setCopyStatus] = useState<"idle" | "copied" | "failed">(
+    "idle"
+  );
+  const [gpuPreview, setGpuPreview] = useState(supportsGpuPreview);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [errors, setErrors] = useState<ErrorEntry[]>([]);
+  // Set when the last render had to deviate from the request, e.g. downscale
+  const [notice, setNotice] = useState<string | null>(null);
+  const nextErrorIdRef = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  // An animated image or clip open for frame-by-frame conversion
+  const [animation, setAnimation] = useState<{
+    file: File;
+    kind: Exclude<MediaKind, "image">;
+  } | null>(null);
+  const batch = useBatchQueue();
+  const { addFiles: addToBatch } = batch;
+  // Controller for the in-flight worker job; aborting terminates the worker
+  const jobRef = useRef<AbortController | null>(null);
+  const lastSourceRef = useRef<Blob | null>(null);
+
+  const cancelProcessing = useCallback(() => {
+    jobRef.current?.abort();
+    jobRef.current = null;
+    setIsProcessing(false);
+  }, []);
+
+  const reportError = useCallback(
+    (error: ImageError, fileName: string | null) => {
+      const id = nextErrorIdRef.current++;
+      setErrors((prev) => [...prev, { id, fileName, error }]);
+    },
+    []
+  );
 
-        ctx.putImageData(imageData, 0, 0);
-        resolve(canvas.toDataURL("image/jpeg", 0.9));
+  const dismissError = useCallback((id: number) => {
+    setErrors((prev) => prev.filter((entry) => entry.id !== id));
+  }, []);
+
+  const processImage = useCallback(
+    async (
+      source: Blob,
+      effectSettings: EffectSettings,
+      encodeOptions: EncodeOptions,
+      effectCrop: CropSettings,
+      effectMask: MaskSettings
+    ) => {
+      // A newer render supersedes whatever is still running
+      jobRef.current?.abort();
+      const job = new AbortController();
+      jobRef.current = job;
+
+      setIsProcessing(true);
+      setProgress(0);
+      setNotice(null);
+      try {
+        const result = await processImageInWorker(source, effectSettings, {
+          onProgress: setProgress,
+          onWarning: setNotice,
+          signal: job.signal,
+          encodeOptions,
+          crop: effectCrop,
+          mask: effectMask,
+        });
+        setDuotoneImage(URL.createObjectURL(result));
       } catch (error) {
-        console.error("Error applying duotone effect:", error);
-        resolve(null);
+        if (isAbortError(error)) return;
+        console.error("Error processing image:", error);
+        // Keep the last good result on screen so settings can still be changed
+        reportError(
+          toImageError(error),
+          source instanceof File ? source.name : null
+        );
+      } finally {
+        if (jobRef.current === job) {
+          jobRef.current = null;
+          setIsProcessing(false);
+        }
       }
+    },
+    [reportError]
+  );
+
+  // Release the previous result's object URL once it is replaced
+  useEffect(() => {
+    return () => {
+      if (duotoneImage) URL.revokeObjectURL(duotoneImage);
     };
+  }, [duotoneImage]);
+
+  // Keep a displayable URL for the original so it can be compared
+  useEffect(() => {
+    if (!originalImage) {
+      setOriginalUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(originalImage);
+    setOriginalUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [originalImage]);
 
-    img.onerror = () => {
-      console.error("Error loading image");
-      resolve(null);
+  // Render the cropped original; the previous one stays up until it's ready
+  useEffect(() => {
+    if (!originalImage) {
+      setBeforeImage(null);
+      return;
+    }
+    let cancelled = false;
+    let url: string | null = null;
+    renderCropPreview(originalImage, crop, BEFORE_PREVIEW_MAX_DIMENSION)
+      .then(({ blob, width, height }) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setBeforeImage({ url, aspect: width / height });
+      })
+      .catch((error) => console.error("Error rendering crop preview:", error));
+    return () => {
+      cancelled = true;
+      // Released a moment late so the replacement is on screen first
+      const stale = url;
+      if (stale) setTimeout(() => URL.revokeObjectURL(stale), 1000);
     };
+  }, [originalImage, crop]);
 
-    img.src = src;
-  });
-};
+  // Tell the user what metadata the photo carries before they choose to keep it
+  useEffect(() => {
+    setMetadataSummary(null);
+    if (!originalImage) return;
+    let cancelled = false;
+    readExifFromBlob(originalImage)
+      .then((exif) => {
+        if (!cancelled) setMetadataSummary(exif && summarizeExif(exif));
+      })
+      .catch((error) => console.error("Error reading metadata:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [originalImage]);
 
-// --- Main App ---
-export default function App() {
-  const [duotoneImage, setDuotoneImage] = useState<string | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Stop any running job when the app unmounts
+  useEffect(() => () => jobRef.current?.abort(), []);
 
-  const processImage = useCallback(async (imageSrc: string) => {
-    setIsProcessing(true);
-    try {
-      const result = await applyDuotoneEffect(imageSrc);
-      setDuotoneImage(result);
-    } catch (error) {
-      console.error("Error processing image:", error);
-      alert("An error occurred while processing the image.");
-      setDuotoneImage(null);
-    } finally {
-      setIsProcessing(false);
+  // Re-render the output whenever the source, settings or encoding change.
+  // The file name template is left out since it doesn't touch the pixels.
+  // A new photo renders at once; tweaks are debounced when the GPU preview
+  // is already showing them live.
+  const { format, quality, maxDimension, metadata, wideGamut } = exportOptions;
+  useEffect(() => {
+    if (!originalImage) {
+      lastSourceRef.current = null;
+      return;
     }
+    const delay =
+      gpuPreview && lastSourceRef.current === originalImage
+        ? CPU_RENDER_DELAY_MS
+        : 0;
+    lastSourceRef.current = originalImage;
+
+    const timer = setTimeout(
+      () =>
+        processImage(
+          originalImage,
+          settings,
+          { format, quality, maxDimension, metadata, wideGamut },
+          crop,
+          mask
+        ),
+      delay
+    );
+    return () => clearTimeout(timer);
+  }, [
+    originalImage,
+    settings,
+    crop,
+    mask,
+    format,
+    quality,
+    maxDimension,
+    metadata,
+    wideGamut,
+    gpuPreview,
+    processImage,
+  ]);
+
+  // Mirror the current look in the URL hash so reloading or sharing the
+  // address keeps it. Default settings leave the address clean.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const hash = settingsEqual(settings, DEFAULT_EFFECT_SETTINGS)
+        ? ""
+        : encodeSettingsHash(settings);
+      if (hash === window.location.hash) return;
+      const { pathname, search } = window.location;
+      window.history.replaceState(null, "", `${pathname}${search}${hash}`);
+    }, HASH_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [settings]);
+
+  // Pasting a share link into the address bar of an open tab
+  useEffect(() => {
+    const handleHashChange = () => {
+      const shared = decodeSettingsHash(window.location.hash);
+      if (shared) setSettings(shared);
+    };
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, [setSettings]);
+
+  const downloadName = buildFileName(exportOptions.fileNameTemplate, {
+    originalName: originalImage instanceof File ? originalImage.name : "photo",
+    mode: settings.mode,
+    format,
+  });
+
+  const setColors = useCallback((colors: Partial<DuotoneColors>) => {
+    setSettings((prev) => ({ ...prev, colors: { ...prev.colors, ...colors } }));
+  }, [setSettings]);
+
+  const handleClassicChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setSettings((prev) => ({
+      ...prev,
+      classic: { ...prev.classic, [name]: parseFloat(value) },
+    }));
+  };
+
+  const openImage = useCallback((image: Blob) => {
+    setCameraOpen(false);
+    setAnimation(null);
+    setOriginalImage(image);
+    setCrop(DEFAULT_CROP);
+    setMask(DEFAULT_MASK);
   }, []);
 
+  const resetImage = useCallback(() => {
+    cancelProcessing();
+    setOriginalImage(null);
+    setCrop(DEFAULT_CROP);
+    setMask(DEFAULT_MASK);
+    setDuotoneImage(null);
+    setNotice(null);
+    setAnimation(null);
+    setErrors([]);
+  }, [cancelProcessing]);
+
+  const openAnimation = useCallback(
+    (file: File, kind: Exclude<MediaKind, "image">) => {
+      resetImage();
+      setCameraOpen(false);
+      setAnimation({ file, kind });
+    },
+    [resetImage]
+  );
+
+  const reportAnimationError = useCallback(
+    (error: ImageError) => reportError(error, animation?.file.name ?? null),
+    [reportError, animation]
+  );
+
+  // A single photo opens in the editor, several go through the batch queue.
+  // A single animation or clip opens for conversion; those can't be batched.
+  // Files failing validation are reported and left out.
+  const handleFiles = useCallback(
+    async (fileList: FileList | File[] | null) => {
+      const files = Array.from(fileList ?? []).filter((file) => {
+        const error = validateImageFile(file);
+        if (error) reportError(error, file.name);
+        return !error;
+      });
+      const kinds = await Promise.all(
+        files.map((file) => detectMediaKind(file).catch((): MediaKind => "image"))
+      );
+      if (files.length === 1) {
+        const [kind] = kinds;
+        if (kind === "image") openImage(files[0]);
+        else openAnimation(files[0], kind);
+        return;
+      }
+      const stills = files.filter((file, i) => {
+        if (kinds[i] === "image") return true;
+        reportError(
+          new ImageError(
+            "unsupported-type",
+            "Animations and clips can't be batch converted. Open them one at a time."
+          ),
+          file.name
+        );
+        return false;
+      });
+      if (stills.length) addToBatch(stills, settings, exportOptions);
+    },
+    [addToBatch, settings, exportOptions, reportError, openImage, openAnimation]
+  );
+
   const handleImageUpload = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (!file) return;
-
-      const reader = new FileReader();
-      reader.onload = () => processImage(reader.result as string);
-      reader.onerror = () => alert("Failed to read file. Please try again.");
-      reader.readAsDataURL(file);
+      handleFiles(e.target.files);
+      // Clear the input so picking the same file again still fires onChange
+      e.target.value = "";
     },
-    [processImage]
+    [handleFiles]
   );
 
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
       e.stopPropagation();
-      const file = e.dataTransfer.files?.[0];
-      if (file?.type.startsWith("image/")) {
-        const reader = new FileReader();
-        reader.onload = () => processImage(reader.result as string);
-        reader.readAsDataURL(file);
-      }
+      droppedFiles(e.dataTransfer)
+        .then(handleFiles)
+        .catch((error) => console.error("Error reading dropped files:", error));
     },
-    [processImage]
+    [handleFiles]
   );
 
+  // Photos sent from the share sheet; the service worker stashed them and
+  // redirected here with a flag in the query
+  const sharedHandledRef = useRef(false);
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (sharedHandledRef.current || !params.has(SHARED_PARAM)) return;
+    sharedHandledRef.current = true;
+    params.delete(SHARED_PARAM);
+    const { pathname, hash } = window.location;
+    const search = params.size ? `?${params}` : "";
+    window.history.replaceState(null, "", `${pathname}${search}${hash}`);
+    takeSharedFiles()
+      .then(handleFiles)
+      .catch((error) => console.error("Error reading shared photos:", error));
+  }, [handleFiles]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes. Text fields keep
+  // their own undo for typing.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || target instanceof HTMLTextAreaElement) return;
+      if (target instanceof HTMLInputElement && target.type === "text") return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) undo();
+      else if ((key === "z" && e.shiftKey) || key === "y") redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  // Ctrl/Cmd+V anywhere on the page feeds pasted images into the pipeline.
+  // Plain-text pastes (e.g. into the file name field) carry no files.
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = e.clipboardData?.files;
+      if (!files?.length) return;
+      e.preventDefault();
+      handleFiles(files);
+    };
+    window.addEventListener("paste", handlePaste);
+    return () => window.removeEventListener("paste", handlePaste);
+  }, [handleFiles]);
+
+  // The processed image, flattened with the poster layout when there is one
+  const exportBlob = useCallback(async () => {
+    if (!duotoneImage) throw new Error("No processed image");
+    const blob = await fetch(duotoneImage).then((response) => response.blob());
+    return isPosterActive(poster)
+      ? composePoster(blob, poster, exportOptions)
+      : blob;
+  }, [duotoneImage, poster, exportOptions]);
+
+  const handleDownload = useCallback(async () => {
+    try {
+      downloadBlob(await exportBlob(), downloadName);
+    } catch (error) {
+      console.error("Error exporting image:", error);
+      reportError(toImageError(error), downloadName);
+    }
+  }, [exportBlob, downloadName, reportError]);
+
+  const handleCopy = useCallback(async () => {
+    if (!duotoneImage) return;
+    try {
+      await copyImageToClipboard(exportBlob());
+      setCopyStatus("copied");
+    } catch (error) {
+      console.error("Error copying image:", error);
+      setCopyStatus("failed");
+      reportError(toImageError(error), downloadName);
+    }
+    setTimeout(() => setCopyStatus("idle"), 2000);
+  }, [duotoneImage, exportBlob, downloadName, reportError]);
+
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -133,8 +521,18 @@ export default function App() {
       </p>
 
 
+      {/* Camera */}
+      {cameraOpen && (
+        <CameraCapture
+          settings={settings}
+          onCapture={openImage}
+          onClose={() => setCameraOpen(false)}
+        />
+      )}
+
       {/* Upload Zone */}
       <div
+        hidden={cameraOpen}
         className={`relative p-8 border-2 border-dashed rounded-xl w-full max-w-lg mb-8 text-center transition-colors
         ${
           isProcessing
@@ -146,33 +544,105 @@ export default function App() {
         onClick={() => !isProcessing && fileInputRef.current?.click()}
       >
         <p className="text-gray-400 text-lg mb-2">
-          {isProcessing ? "Processing..." : "Drag & Drop your photo here"}
+          {isProcessing
+            ? `Processing... ${Math.round(progress * 100)}%`
+            : "Drag & Drop your photos here"}
+        </p>
+        <p className="text-gray-500 text-sm">
+          or click to upload · paste with Ctrl/⌘+V
         </p>
-        <p className="text-gray-500 text-sm">or click to upload</p>
+        <p className="text-gray-600 text-xs mt-2">
+          JPEG, PNG, WebP or GIF · up to 25 MB · MP4 or WebM clips up to 100 MB
+        </p>
+        {canUseCamera() && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setCameraOpen(true);
+            }}
+            disabled={isProcessing}
+            className="mt-4 inline-flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-1.5 px-4 rounded-full text-sm transition-colors"
+          >
+            📷 Use camera
+          </button>
+        )}
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/*"
+          accept={[...ACCEPTED_TYPES, ...CLIP_TYPES].join(",")}
+          multiple
           className="hidden"
           onChange={handleImageUpload}
           disabled={isProcessing}
         />
         {isProcessing && (
-          <div className="absolute inset-0 flex items-center justify-center bg-gray-900 bg-opacity-75 z-10">
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-gray-900 bg-opacity-75 z-10">
             <div className="animate-spin rounded-full h-12 w-12 border-4 border-t-transparent border-blue-500"></div>
+            <div className="w-40 h-1.5 rounded-full bg-gray-700 overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-[width] duration-150"
+                style={{ width: `${Math.round(progress * 100)}%` }}
+              />
+            </div>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                resetImage();
+              }}
+              className="text-sm text-gray-400 hover:text-white underline"
+            >
+              Cancel
+            </button>
           </div>
         )}
       </div>
 
+      {/* Batch Queue */}
+      {batch.items.length > 0 && (
+        <BatchQueue
+          items={batch.items}
+          onOpen={openImage}
+          onRerun={() => batch.rerun(settings, exportOptions)}
+          onClear={batch.clear}
+          onError={(error) => reportError(error, null)}
+        />
+      )}
+
+      {/* Animation or clip */}
+      {animation && (
+        <AnimationPanel
+          source={animation.file}
+          kind={animation.kind}
+          settings={settings}
+          fileNameTemplate={exportOptions.fileNameTemplate}
+          onError={reportAnimationError}
+          onClose={resetImage}
+        >
+          <details className="w-full max-w-md">
+            <summary className="cursor-pointer text-sm font-medium text-gray-300 mb-4">
+              Look
+            </summary>
+            <PresetPanel settings={settings} onApply={setSettings} />
+          </details>
+        </AnimationPanel>
+      )}
+
+      {/* Errors outside of the result card */}
+      {!duotoneImage && (
+        <ErrorMessages
+          errors={errors}
+          onDismiss={dismissError}
+          className="max-w-lg mb-8"
+        />
+      )}
+
       {/* Duotone Result */}
       {duotoneImage && (
         <div className="w-full max-w-3xl">
             <div className="bg-gray-800 rounded-xl shadow-xl p-6 flex flex-col items-center relative">
                 {/* Close button in top-right */}
                 <button
-                  onClick={() => {
-                    setDuotoneImage(null);
-                  }}
+                  onClick={resetImage}
                   className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors"
                 >
                   <svg
@@ -189,14 +659,298 @@ export default function App() {
             <h2 className="text-2xl font-semibold mb-4 text-purple-300">
               Duotone Effect
             </h2>
-            <div className="relative w-full max-w-md aspect-square overflow-hidden rounded-lg bg-black">
-              <img
-                src={duotoneImage}
-                alt="Duotone"
-                className="absolute inset-0 m-auto max-w-full max-h-full object-contain transform hover:scale-105 transition-transform duration-300"
+            <ErrorMessages
+              errors={errors}
+              onDismiss={dismissError}
+              className="max-w-md mb-4"
+            />
+            {notice && (
+              <p
+                role="status"
+                className="w-full max-w-md mb-4 rounded-lg border border-amber-400/40 bg-amber-400/10 px-4 py-3 text-sm text-amber-200"
+              >
+                {notice}
+              </p>
+            )}
+            {originalUrl ? (
+              <CompareSlider
+                before={beforeImage?.url ?? originalUrl}
+                aspectRatio={beforeImage?.aspect}
+                after={
+                  gpuPreview && originalImage ? (
+                    <GpuPreview
+                      source={originalImage}
+                      settings={settings}
+                      crop={crop}
+                      mask={mask}
+                      wideGamut={exportOptions.wideGamut}
+                      onAvailabilityChange={setGpuPreview}
+                      className="absolute inset-0 w-full h-full object-contain"
+                    />
+                  ) : (
+                    duotoneImage
+                  )
+                }
+                className="max-w-md"
               />
+            ) : (
+              <div className="w-full max-w-md overflow-hidden rounded-lg bg-black">
+                <img
+                  src={duotoneImage}
+                  alt="Duotone"
+                  className="block w-full h-auto max-h-[70vh] object-contain"
+                />
+              </div>
+            )}
+
+            {/* History */}
+            <div className="mt-6 flex items-center gap-4 text-sm">
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                title="Undo (Ctrl+Z)"
+                className="text-gray-300 hover:text-white disabled:opacity-40 disabled:hover:text-gray-300"
+              >
+                ↶ Undo
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                className="text-gray-300 hover:text-white disabled:opacity-40 disabled:hover:text-gray-300"
+              >
+                Redo ↷
+              </button>
+              <button
+                onClick={() => setSettings(DEFAULT_EFFECT_SETTINGS)}
+                disabled={settingsEqual(settings, DEFAULT_EFFECT_SETTINGS)}
+                className="text-gray-400 hover:text-white underline disabled:opacity-40 disabled:no-underline"
+              >
+                Reset to defaults
+              </button>
             </div>
 
+            {/* Mode selector */}
+            <div className="mt-4 inline-flex rounded-full bg-gray-700 p-1">
+              {EFFECT_MODES.map(({ value: mode, label }) => (
+                <button
+                  key={mode}
+                  onClick={() => setSettings((prev) => ({ ...prev, mode }))}
+                  aria-pressed={settings.mode === mode}
+                  className={`px-5 py-1 rounded-full font-semibold transition-colors ${
+                    settings.mode === mode
+                      ? "bg-purple-500 text-white"
+                      : "text-gray-300 hover:text-white"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {/* Color blending */}
+            {settings.mode !== "classic" && (
+              <label className="mt-4 flex items-center gap-2 text-sm text-gray-400">
+                <span>Blend colors in</span>
+                <select
+                  value={settings.interpolation}
+                  onChange={(e) =>
+                    setSettings((prev) => ({
+                      ...prev,
+                      interpolation: e.target.value as ColorInterpolation,
+                    }))
+                  }
+                  className="bg-gray-700 text-gray-200 rounded-md px-2 py-1"
+                >
+                  {COLOR_INTERPOLATIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {settings.mode === "duotone" ? (
+              <>
+                {/* Color pickers */}
+                <div className="mt-6 flex flex-wrap justify-center items-start gap-6">
+                  <ColorPicker
+                    label="Shadow"
+                    value={settings.colors.shadow}
+                    onChange={(shadow) => setColors({ shadow })}
+                  />
+                  <ColorPicker
+                    label="Highlight"
+                    value={settings.colors.highlight}
+                    onChange={(highlight) => setColors({ highlight })}
+                  />
+                  <button
+                    onClick={() => setColors(DEFAULT_EFFECT_SETTINGS.colors)}
+                    className="self-center text-sm text-gray-400 hover:text-white underline"
+                  >
+                    Reset colors
+                  </button>
+                </div>
+
+                {/* Palettes */}
+                <div className="mt-6 w-full max-w-md">
+                  <p className="text-sm text-gray-400 mb-2">
+                    Palettes{" "}
+                    <span className="text-gray-500">
+                      (👁 = stays readable with deuteranopia &amp; protanopia)
+                    </span>
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {PALETTES.map((palette) => (
+                      <button
+                        key={palette.name}
+                        onClick={() =>
+                          setColors({
+                            shadow: palette.shadow,
+                            highlight: palette.highlight,
+                          })
+                        }
+                        title={`Contrast ${palette.cvdContrast.toFixed(1)}:1 under color-blind simulation`}
+                        className="flex items-center gap-2 rounded-lg bg-gray-700 hover:bg-gray-600 px-3 py-2 text-left text-sm"
+                      >
+                        <span
+                          className="w-6 h-6 shrink-0 rounded-full border border-white"
+                          style={{
+                            background: `linear-gradient(90deg, ${palette.shadow} 50%, ${palette.highlight} 50%)`,
+                          }}
+                        />
+                        <span className="flex-1">{palette.name}</span>
+                        {isColorBlindSafe(palette) && (
+                          <span aria-label="Color-blind safe">👁</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Palettes taken from the photo or a brand logo */}
+                {beforeImage && (
+                  <PaletteSuggestions
+                    imageUrl={beforeImage.url}
+                    settings={settings}
+                    onApply={setColors}
+                  />
+                )}
+              </>
+            ) : settings.mode === "gradient" ? (
+              /* Gradient map stops */
+              <div className="mt-6 w-full max-w-md">
+                <GradientEditor
+                  value={settings.gradient}
+                  interpolation={settings.interpolation}
+                  onChange={(gradient) =>
+                    setSettings((prev) => ({ ...prev, gradient }))
+                  }
+                />
+                <button
+                  onClick={() =>
+                    setSettings((prev) => ({
+                      ...prev,
+                      gradient: DEFAULT_EFFECT_SETTINGS.gradient,
+                    }))
+                  }
+                  className="mt-2 text-sm text-gray-400 hover:text-white underline"
+                >
+                  Reset gradient
+                </button>
+              </div>
+            ) : (
+              /* Classic multipliers */
+              <div className="mt-6 grid grid-cols-1 sm:grid-cols-3 gap-6 w-full max-w-md">
+                {CLASSIC_CHANNELS.map(({ name, label }) => (
+                  <div key={name}>
+                    <label className="block text-sm font-medium text-gray-400">
+                      {label}
+                    </label>
+                    <input
+                      type="range"
+                      name={name}
+                      min="0"
+                      max="3"
+                      step="0.1"
+                      value={settings.classic[name]}
+                      onChange={handleClassicChange}
+                      className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                    />
+                    <span className="text-sm text-gray-400">
+                      {settings.classic[name].toFixed(1)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Presets */}
+            <details className="mt-6 w-full max-w-md">
+              <summary className="cursor-pointer text-sm font-medium text-gray-300 mb-4">
+                Presets
+              </summary>
+              <PresetPanel settings={settings} onApply={setSettings} />
+            </details>
+
+            {/* Tone curve */}
+            <details className="mt-4 w-full max-w-md">
+              <summary className="cursor-pointer text-sm font-medium text-gray-300 mb-4">
+                Tone adjustments
+              </summary>
+              <ToneControls
+                value={settings.tone}
+                onChange={(tone) => setSettings((prev) => ({ ...prev, tone }))}
+              />
+            </details>
+
+            {/* Crop and rotate */}
+            {originalUrl && (
+              <details className="mt-4 w-full max-w-md">
+                <summary className="cursor-pointer text-sm font-medium text-gray-300 mb-4">
+                  Crop &amp; rotate
+                </summary>
+                <CropEditor imageUrl={originalUrl} value={crop} onChange={setCrop} />
+              </details>
+            )}
+
+            {/* Selective mask */}
+            {beforeImage && (
+              <details className="mt-4 w-full max-w-md">
+                <summary className="cursor-pointer text-sm font-medium text-gray-300 mb-4">
+                  Selective mask
+                  {mask.shapes.length > 0 &&
+                    ` (${mask.shapes.length} shape${mask.shapes.length === 1 ? "" : "s"})`}
+                </summary>
+                <MaskEditor imageUrl={beforeImage.url} value={mask} onChange={setMask} />
+              </details>
+            )}
+
+            {/* Poster layout */}
+            {duotoneImage && (
+              <details className="mt-4 w-full max-w-md">
+                <summary className="cursor-pointer text-sm font-medium text-gray-300 mb-4">
+                  Poster layout
+                  {isPosterActive(poster) && " (on)"}
+                </summary>
+                <PosterComposer imageUrl={duotoneImage} value={poster} onChange={setPoster} />
+              </details>
+            )}
+
+            {/* Export options */}
+            <details className="mt-4 w-full max-w-md">
+              <summary className="cursor-pointer text-sm font-medium text-gray-300 mb-4">
+                Export options
+              </summary>
+              <ExportPanel
+                value={exportOptions}
+                onChange={setExportOptions}
+                fileName={downloadName}
+                metadataSummary={metadataSummary}
+              />
+            </details>
+
               {/* Info message */}
               <p className="mt-4 text-sm text-gray-400 text-center max-w-md">
                 Everything happens right in your browser<br/>
@@ -220,7 +974,7 @@ export default function App() {
             <div className="mt-6 flex flex-wrap gap-4 justify-center">
               {/* New Photo Button */}
               <button
-                onClick={() => setDuotoneImage(null)}
+                onClick={resetImage}
                 className="inline-flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-6 rounded-full shadow-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-gray-400 text-lg"
               >
                 {/* Replace photo icon (refresh/uturn arrow) */}
@@ -241,10 +995,38 @@ export default function App() {
               </button>
 
 
+              {/* Copy Button */}
+              {canCopyImages() && (
+                <button
+                  onClick={handleCopy}
+                  className="inline-flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-6 rounded-full shadow-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-gray-400 text-lg"
+                >
+                  <svg
+                    className="w-5 h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth={2}
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                    />
+                  </svg>
+                  <span>
+                    {copyStatus === "copied"
+                      ? "Copied!"
+                      : copyStatus === "failed"
+                        ? "Copy failed"
+                        : "Copy image"}
+                  </span>
+                </button>
+              )}
+
               {/* Download Button */}
-              <a
-                href={duotoneImage}
-                download="duotone-photo.jpeg"
+              <button
+                onClick={handleDownload}
                 className="inline-flex items-center gap-2 bg-gradient-to-r from-pink-500 via-purple-500 to-blue-500 hover:from-pink-600 hover:to-blue-600 text-white font-bold py-2 px-6 rounded-full shadow-lg transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-purple-400 text-lg"
               >
                 <svg
@@ -261,7 +1043,7 @@ export default function App() {
                   />
                 </svg>
                 <span>Download Photo</span>
-              </a>
+              </button>
             </div>
           </div>
         </div>
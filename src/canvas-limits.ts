@@ -0,0 +1,60 @@
+import { fitArea } from "./lib";
+import { MAX_CANVAS_AREA, MAX_CANVAS_SIDE } from "./validation";
+
+// Each failed probe shrinks the area by this factor
+const PROBE_SHRINK = 0.75;
+
+// Below this a failure means the device is out of memory, not at a canvas cap
+const MIN_PROBE_AREA = 1024 * 1024;
+
+// Browsers past their canvas limit tend to hand out a context that silently
+// draws nothing, so check that a pixel at the far corner sticks
+const canAllocate = (width: number, height: number) => {
+  try {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return false;
+    ctx.fillRect(width - 1, height - 1, 1, 1);
+    const drawn = ctx.getImageData(width - 1, height - 1, 1, 1).data[3] !== 0;
+    // Release the backing store right away rather than at the next GC
+    canvas.width = canvas.height = 1;
+    return drawn;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * What probing has shown about this device's canvas cap. Every job runs in
+ * a fresh worker, so the page keeps this and hands it to the next job.
+ */
+export interface CanvasLimits {
+  /** Largest area known to allocate; anything up to it isn't probed again */
+  fits: number;
+  /** Areas above this failed before and are scaled down without probing */
+  cap: number;
+}
+
+export const UNKNOWN_CANVAS_LIMITS: CanvasLimits = { fits: 0, cap: MAX_CANVAS_AREA };
+
+/**
+ * Largest canvas size up to `width` x `height`, same aspect ratio, that this
+ * device actually allocates. Starts from the cap found so far (at first the
+ * largest size any browser allows) and shrinks until a probe canvas works,
+ * so devices with lower caps are found without guessing from the user
+ * agent. Sizes already known to fit aren't probed, which spares low-memory
+ * devices a second full-size canvas on every render.
+ * @returns The size to use with the updated limits, or null if even a small
+ * canvas fails.
+ */
+export const fitCanvasToDevice = (width: number, height: number, limits: CanvasLimits) => {
+  let size = fitArea(width, height, limits.cap, MAX_CANVAS_SIDE);
+  let { cap } = limits;
+  while (size.width * size.height > limits.fits && !canAllocate(size.width, size.height)) {
+    const area = size.width * size.height;
+    if (area <= MIN_PROBE_AREA) return null;
+    size = fitArea(size.width, size.height, area * PROBE_SHRINK);
+    cap = size.width * size.height;
+  }
+  return { ...size, limits: { fits: Math.max(limits.fits, size.width * size.height), cap } };
+};
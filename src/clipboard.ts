@@ -0,0 +1,33 @@
+/**
+ * Whether this browser can write images through the async Clipboard API.
+ */
+export const canCopyImages = () =>
+  typeof ClipboardItem !== "undefined" && !!navigator.clipboard?.write;
+
+// Clipboards only universally accept PNG, so re-encode anything else
+const toPng = async (blob: Blob): Promise<Blob> => {
+  if (blob.type === "image/png") return blob;
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (png) => (png ? resolve(png) : reject(new Error("PNG encoding failed"))),
+      "image/png"
+    )
+  );
+};
+
+/**
+ * Copies an image to the clipboard as PNG.
+ * The ClipboardItem is created synchronously with a pending blob, which
+ * Safari requires to keep the call inside the user's click gesture.
+ */
+export const copyImageToClipboard = (image: Blob | Promise<Blob>) =>
+  navigator.clipboard.write([
+    new ClipboardItem({ "image/png": Promise.resolve(image).then(toPng) }),
+  ]);
@@ -0,0 +1,222 @@
+import * as React from "react";
+import {
+  ANIMATION_MAX_DIMENSION,
+  MAX_ANIMATION_FRAMES,
+  MAX_CLIP_SECONDS,
+  settingsEqual,
+  type EffectSettings,
+} from "../lib";
+import { downloadBlob } from "../download";
+import { buildFileName } from "../export";
+import {
+  processAnimationInWorker,
+  type AnimationResult,
+} from "../process-animation";
+import { processClip } from "../process-clip";
+import { isAbortError } from "../process-image";
+import { toImageError, type ImageError } from "../validation";
+
+interface AnimationPanelProps {
+  source: File;
+  kind: "animation" | "clip";
+  settings: EffectSettings;
+  fileNameTemplate: string;
+  onError: (error: ImageError) => void;
+  onClose: () => void;
+  /** Look controls shown under the preview */
+  children?: React.ReactNode;
+}
+
+interface Converted extends AnimationResult {
+  url: string;
+  /** The look the result was made with */
+  settings: EffectSettings;
+}
+
+/**
+ * Converts an animated image or a short clip frame by frame with the
+ * current look. Conversion starts on open; after changing the look it can
+ * be run again.
+ */
+export function AnimationPanel({
+  source,
+  kind,
+  settings,
+  fileNameTemplate,
+  onError,
+  onClose,
+  children,
+}: AnimationPanelProps) {
+  const [sourceUrl, setSourceUrl] = React.useState<string | null>(null);
+  const [result, setResult] = React.useState<Converted | null>(null);
+  const [progress, setProgress] = React.useState<number | null>(null);
+  const jobRef = React.useRef<AbortController | null>(null);
+  // Read when converting, so the first run doesn't depend on every slider
+  const settingsRef = React.useRef(settings);
+
+  React.useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  React.useEffect(() => {
+    const url = URL.createObjectURL(source);
+    setSourceUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [source]);
+
+  React.useEffect(() => {
+    if (!result) return;
+    return () => URL.revokeObjectURL(result.url);
+  }, [result]);
+
+  const convert = React.useCallback(async () => {
+    jobRef.current?.abort();
+    const job = new AbortController();
+    jobRef.current = job;
+    const look = settingsRef.current;
+    const process = kind === "clip" ? processClip : processAnimationInWorker;
+    setProgress(0);
+    try {
+      const converted = await process(source, look, {
+        onProgress: setProgress,
+        signal: job.signal,
+      });
+      setResult({ ...converted, url: URL.createObjectURL(converted.blob), settings: look });
+    } catch (error) {
+      if (!isAbortError(error)) onError(toImageError(error));
+    } finally {
+      if (jobRef.current === job) {
+        jobRef.current = null;
+        setProgress(null);
+      }
+    }
+  }, [source, kind, onError]);
+
+  const cancel = () => {
+    jobRef.current?.abort();
+    jobRef.current = null;
+    setProgress(null);
+  };
+
+  React.useEffect(() => {
+    convert();
+    return () => jobRef.current?.abort();
+  }, [convert]);
+
+  const handleDownload = () => {
+    if (!result) return;
+    const name = buildFileName(fileNameTemplate, {
+      originalName: source.name,
+      mode: result.settings.mode,
+      format: result.format,
+    });
+    downloadBlob(result.blob, name);
+  };
+
+  const converting = progress !== null;
+  const outdated = result !== null && !settingsEqual(result.settings, settings);
+  const limit =
+    kind === "clip" ? `${MAX_CLIP_SECONDS} seconds` : `${MAX_ANIMATION_FRAMES} frames`;
+
+  return (
+    <div className="w-full max-w-3xl mb-8">
+      <div className="bg-gray-800 rounded-xl shadow-xl p-6 flex flex-col items-center gap-4">
+        <h2 className="text-2xl font-semibold text-purple-300">
+          {kind === "clip" ? "Video clip" : "Animation"}
+        </h2>
+
+        <div className="relative w-full max-w-md overflow-hidden rounded-lg bg-black">
+          {result && !converting ? (
+            kind === "clip" ? (
+              <video
+                src={result.url}
+                autoPlay
+                loop
+                muted
+                playsInline
+                className="block w-full h-auto max-h-[70vh] object-contain"
+              />
+            ) : (
+              <img
+                src={result.url}
+                alt="Converted animation"
+                className="block w-full h-auto max-h-[70vh] object-contain"
+              />
+            )
+          ) : (
+            sourceUrl &&
+            (kind === "clip" ? (
+              <video
+                src={sourceUrl}
+                muted
+                playsInline
+                className="block w-full h-auto max-h-[70vh] object-contain opacity-50"
+              />
+            ) : (
+              <img
+                src={sourceUrl}
+                alt="Original animation"
+                className="block w-full h-auto max-h-[70vh] object-contain opacity-50"
+              />
+            ))
+          )}
+          {progress !== null && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-3">
+              <p className="text-sm text-gray-200">
+                {kind === "clip" ? "Recording" : "Converting"}… {Math.round(progress * 100)}%
+              </p>
+              <div className="w-40 h-1.5 rounded-full bg-gray-700 overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-[width] duration-150"
+                  style={{ width: `${Math.round(progress * 100)}%` }}
+                />
+              </div>
+              <button onClick={cancel} className="text-sm text-gray-300 hover:text-white underline">
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+
+        <p className="text-xs text-gray-500 text-center max-w-md">
+          {kind === "clip"
+            ? "Clips play through once in real time and are saved without sound; keep this tab open."
+            : "Saved as a looping GIF."}{" "}
+          Up to {limit}, {ANIMATION_MAX_DIMENSION} px on the longest edge.
+        </p>
+        {result?.trimmed && (
+          <p className="text-sm text-amber-300 text-center max-w-md">
+            Only the first {limit} were converted.
+          </p>
+        )}
+
+        {children}
+
+        <div className="flex flex-wrap gap-4 justify-center">
+          <button
+            onClick={onClose}
+            className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-6 rounded-full shadow-md transition-colors"
+          >
+            Close
+          </button>
+          {outdated && (
+            <button
+              onClick={convert}
+              disabled={converting}
+              className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-6 rounded-full shadow-md transition-colors disabled:opacity-40"
+            >
+              Apply current look
+            </button>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={!result || converting}
+            className="bg-gradient-to-r from-pink-500 via-purple-500 to-blue-500 hover:from-pink-600 hover:to-blue-600 text-white font-bold py-2 px-6 rounded-full shadow-lg transition-all disabled:opacity-40"
+          >
+            Download {result?.format.toUpperCase() ?? ""}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
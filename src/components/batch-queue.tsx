@@ -0,0 +1,114 @@
+import * as React from "react";
+import { downloadBlob } from "../download";
+import type { BatchItem } from "../hooks/use-batch-queue";
+import { ImageError } from "../validation";
+import { createZip } from "../zip";
+import { Button } from "./button";
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  onOpen: (file: File) => void;
+  onRerun: () => void;
+  onClear: () => void;
+  onError: (error: ImageError) => void;
+}
+
+const STATUS_LABELS: Record<BatchItem["status"], string> = {
+  queued: "Queued",
+  processing: "Processing",
+  done: "Done",
+  error: "Failed",
+};
+
+export function BatchQueue({ items, onOpen, onRerun, onClear, onError }: BatchQueueProps) {
+  const [isZipping, setIsZipping] = React.useState(false);
+  const done = items.filter((item) => item.result);
+  const finished = items.filter(
+    (item) => item.status === "done" || item.status === "error"
+  ).length;
+
+  const handleDownloadZip = async () => {
+    setIsZipping(true);
+    try {
+      const zip = await createZip(
+        done.map((item) => ({ name: item.resultName!, blob: item.result! }))
+      );
+      downloadBlob(zip, "duotone-photos.zip");
+    } catch (error) {
+      console.error("Error creating ZIP:", error);
+      onError(
+        new ImageError(
+          "processing-failed",
+          `Couldn't create the ZIP file: ${error instanceof Error ? error.message : error}`
+        )
+      );
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl bg-gray-800 rounded-xl shadow-xl p-6 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-2xl font-semibold text-purple-300">
+          Batch ({finished}/{items.length})
+        </h2>
+        <div className="flex flex-wrap gap-2">
+          <Button color="purple" onClick={handleDownloadZip} disabled={!done.length || isZipping}>
+            {isZipping ? "Zipping..." : `Download ZIP (${done.length})`}
+          </Button>
+          <Button color="blue" onClick={onRerun}>
+            Apply current settings
+          </Button>
+          <Button color="pink" onClick={onClear}>
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <ul className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {items.map((item) => (
+          <li key={item.id} className="flex flex-col gap-1">
+            <button
+              onClick={() => onOpen(item.file)}
+              title="Open in editor"
+              className="relative aspect-square overflow-hidden rounded-lg bg-black"
+            >
+              <img
+                src={item.resultUrl ?? item.sourceUrl}
+                alt={item.file.name}
+                loading="lazy"
+                className={`w-full h-full object-cover ${item.resultUrl ? "" : "opacity-40"}`}
+              />
+              {item.status === "processing" && (
+                <div className="absolute inset-x-2 bottom-2 h-1.5 rounded-full bg-gray-700 overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500"
+                    style={{ width: `${Math.round(item.progress * 100)}%` }}
+                  />
+                </div>
+              )}
+            </button>
+            <span className="truncate text-xs text-gray-300" title={item.file.name}>
+              {item.file.name}
+            </span>
+            <span
+              className={`text-xs ${
+                item.status === "error"
+                  ? "text-red-400"
+                  : item.warning
+                    ? "text-amber-300"
+                    : "text-gray-500"
+              }`}
+              title={item.error ?? item.warning ?? undefined}
+            >
+              {STATUS_LABELS[item.status]}
+              {item.status === "processing" && ` ${Math.round(item.progress * 100)}%`}
+              {item.status === "done" && item.warning && " (scaled down)"}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
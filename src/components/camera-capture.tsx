@@ -0,0 +1,142 @@
+import * as React from "react";
+import type { EffectSettings } from "../lib";
+import { createFramePainter, type FramePainter } from "../frame-painter";
+import { useCamera, type CameraFacing } from "../hooks/use-camera";
+
+interface CameraCaptureProps {
+  settings: EffectSettings;
+  /** Receives the unprocessed still, ready for the normal pipeline */
+  onCapture: (photo: File) => void;
+  onClose: () => void;
+}
+
+// Without WebGL the viewfinder runs the CPU path on a small frame
+const CPU_PREVIEW_MAX_DIMENSION = 480;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const captureName = (date: Date) =>
+  `camera-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-` +
+  `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}.jpg`;
+
+/**
+ * Live viewfinder with the current look applied, and a shutter that hands
+ * the raw frame over as a photo. The front camera is mirrored, in the
+ * preview and the capture alike, so shots come out as framed.
+ */
+export function CameraCapture({ settings, onCapture, onClose }: CameraCaptureProps) {
+  const [facing, setFacing] = React.useState<CameraFacing>("environment");
+  const [gpu, setGpu] = React.useState(true);
+  const { stream, error, canSwitch } = useCamera(facing);
+  const videoRef = React.useRef<HTMLVideoElement>(null);
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const painterRef = React.useRef<FramePainter | null>(null);
+  // Read by the frame loop without restarting it on every slider move
+  const settingsRef = React.useRef(settings);
+  const mirrored = facing === "user";
+
+  React.useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  React.useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !stream) return;
+    video.srcObject = stream;
+    video.play().catch((e) => console.error("Error playing camera stream:", e));
+    return () => {
+      video.srcObject = null;
+    };
+  }, [stream]);
+
+  React.useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const painter = createFramePainter(canvas, {
+      gpu,
+      maxDimension: gpu ? null : CPU_PREVIEW_MAX_DIMENSION,
+    });
+    if (!painter) {
+      if (gpu) setGpu(false);
+      return;
+    }
+    painterRef.current = painter;
+    return () => {
+      painter.dispose();
+      painterRef.current = null;
+    };
+  }, [gpu]);
+
+  // Draw every display frame once the video has one to show
+  React.useEffect(() => {
+    if (!stream) return;
+    let frame = 0;
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const video = videoRef.current;
+      if (!video || video.readyState < video.HAVE_CURRENT_DATA) return;
+      painterRef.current?.draw(video, settingsRef.current);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [stream]);
+
+  const capture = async () => {
+    const video = videoRef.current;
+    if (!video?.videoWidth) return;
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    if (mirrored) {
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(video, 0, 0);
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", 0.95)
+    );
+    if (blob) onCapture(new File([blob], captureName(new Date()), { type: "image/jpeg" }));
+  };
+
+  return (
+    <div className="w-full max-w-lg mb-8 flex flex-col items-center gap-4">
+      <div className="relative w-full min-h-48 overflow-hidden rounded-xl bg-black flex items-center justify-center">
+        <video ref={videoRef} playsInline muted className="absolute w-px h-px opacity-0" />
+        {/* Remounted when falling back, since a canvas keeps its first context type */}
+        <canvas
+          key={gpu ? "gpu" : "cpu"}
+          ref={canvasRef}
+          className={`block w-full h-auto max-h-[70vh] object-contain ${
+            mirrored ? "-scale-x-100" : ""
+          } ${stream ? "" : "invisible"}`}
+        />
+        {!stream && (
+          <p className="absolute inset-0 flex items-center justify-center p-6 text-center text-sm text-gray-400">
+            {error ?? "Starting camera…"}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-6">
+        <button onClick={onClose} className="text-sm text-gray-400 hover:text-white underline">
+          Close camera
+        </button>
+        <button
+          onClick={capture}
+          disabled={!stream}
+          aria-label="Take photo"
+          className="w-16 h-16 rounded-full border-4 border-white bg-pink-500 hover:bg-pink-400 shadow-lg transition-colors disabled:opacity-40"
+        />
+        <button
+          onClick={() => setFacing((f) => (f === "user" ? "environment" : "user"))}
+          disabled={!canSwitch}
+          className="text-sm text-gray-400 hover:text-white underline disabled:opacity-40 disabled:no-underline"
+        >
+          ⟲ Switch camera
+        </button>
+      </div>
+    </div>
+  );
+}
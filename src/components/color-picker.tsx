@@ -0,0 +1,48 @@
+import * as React from "react";
+
+interface ColorPickerProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export function ColorPicker({ label, value, onChange, disabled }: ColorPickerProps) {
+  // Keep the typed text separately so half-finished hex codes don't reset the swatch
+  const [draft, setDraft] = React.useState(value);
+
+  React.useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const handleTextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const next = e.target.value.trim();
+    setDraft(next);
+    if (HEX_PATTERN.test(next)) onChange(next.toLowerCase());
+  };
+
+  return (
+    <label className="flex flex-col items-center gap-2 text-sm text-gray-400">
+      <span>{label}</span>
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="w-12 h-12 rounded-full border-2 border-white bg-transparent cursor-pointer"
+      />
+      <input
+        type="text"
+        value={draft}
+        onChange={handleTextChange}
+        onBlur={() => setDraft(value)}
+        disabled={disabled}
+        maxLength={7}
+        spellCheck={false}
+        className="w-24 bg-gray-700 text-center text-gray-200 rounded-md px-2 py-1 font-mono"
+      />
+    </label>
+  );
+}
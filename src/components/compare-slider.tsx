@@ -0,0 +1,133 @@
+import * as React from "react";
+
+interface CompareSliderProps {
+  before: string;
+  /** Image URL, or an element (e.g. a live canvas) filling the frame */
+  after: string | React.ReactNode;
+  beforeLabel?: string;
+  afterLabel?: string;
+  /** Width / height of the frame; square when unknown */
+  aspectRatio?: number;
+  className?: string;
+}
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+export function CompareSlider({
+  before,
+  after,
+  beforeLabel = "Original",
+  afterLabel = "Duotone",
+  aspectRatio = 1,
+  className,
+}: CompareSliderProps) {
+  // Percentage of the width showing the "before" image
+  const [position, setPosition] = React.useState(50);
+  const [showBefore, setShowBefore] = React.useState(false);
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const draggingRef = React.useRef(false);
+
+  const moveTo = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setPosition(clamp(((clientX - rect.left) / rect.width) * 100));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    draggingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    moveTo(e.clientX);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (draggingRef.current) moveTo(e.clientX);
+  };
+
+  const stopDragging = () => {
+    draggingRef.current = false;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = e.shiftKey ? 10 : 2;
+    if (e.key === "ArrowLeft") setPosition((p) => clamp(p - step));
+    else if (e.key === "ArrowRight") setPosition((p) => clamp(p + step));
+    else if (e.key === "Home") setPosition(0);
+    else if (e.key === "End") setPosition(100);
+    else return;
+    e.preventDefault();
+  };
+
+  const holdProps = {
+    onPointerDown: () => setShowBefore(true),
+    onPointerUp: () => setShowBefore(false),
+    onPointerLeave: () => setShowBefore(false),
+    onPointerCancel: () => setShowBefore(false),
+  };
+
+  const clip = showBefore ? 100 : position;
+
+  return (
+    <div className={`flex flex-col items-center w-full ${className ?? ""}`}>
+      <div
+        ref={containerRef}
+        className="relative w-full max-h-[70vh] overflow-hidden rounded-lg bg-black select-none touch-none cursor-ew-resize"
+        style={{ aspectRatio }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={stopDragging}
+        onPointerCancel={stopDragging}
+      >
+        {typeof after === "string" ? (
+          <img
+            src={after}
+            alt={afterLabel}
+            draggable={false}
+            className="absolute inset-0 w-full h-full object-contain"
+          />
+        ) : (
+          after
+        )}
+        <img
+          src={before}
+          alt={beforeLabel}
+          draggable={false}
+          className="absolute inset-0 w-full h-full object-contain"
+          style={{ clipPath: `inset(0 ${100 - clip}% 0 0)` }}
+        />
+
+        <span className="absolute top-2 left-2 rounded bg-black/60 px-2 py-0.5 text-xs text-gray-200">
+          {beforeLabel}
+        </span>
+        <span className="absolute top-2 right-2 rounded bg-black/60 px-2 py-0.5 text-xs text-gray-200">
+          {afterLabel}
+        </span>
+
+        {!showBefore && (
+          <div
+            role="slider"
+            tabIndex={0}
+            aria-label="Comparison position"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(position)}
+            onKeyDown={handleKeyDown}
+            className="absolute inset-y-0 -ml-px w-0.5 bg-white focus:outline-none"
+            style={{ left: `${position}%` }}
+          >
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white text-gray-900 shadow-lg flex items-center justify-center text-xs font-bold">
+              ⇆
+            </div>
+          </div>
+        )}
+      </div>
+
+      <button
+        {...holdProps}
+        onContextMenu={(e) => e.preventDefault()}
+        className="mt-3 text-sm text-gray-400 hover:text-white select-none touch-none"
+      >
+        Hold to show original
+      </button>
+    </div>
+  );
+}
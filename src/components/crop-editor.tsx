@@ -0,0 +1,251 @@
+import * as React from "react";
+import {
+  CROP_ASPECTS,
+  DEFAULT_CROP,
+  FULL_CROP_RECT,
+  applyCropTransform,
+  flipCrop,
+  isCropActive,
+  moveCropRect,
+  orientedSize,
+  relativeRatio,
+  resizeCropRect,
+  rotateCrop,
+  setCropAspect,
+  type CropHandle,
+  type CropRect,
+  type CropSettings,
+} from "../lib";
+
+interface CropEditorProps {
+  /** URL of the unprocessed, uncropped photo */
+  imageUrl: string;
+  value: CropSettings;
+  onChange: (value: CropSettings) => void;
+}
+
+type CropDrag =
+  | { kind: "move"; startX: number; startY: number; rect: CropRect }
+  | { kind: "resize"; handle: CropHandle };
+
+// Editor resolution; the crop itself is stored as fractions
+const EDITOR_MAX_DIMENSION = 720;
+// Corner grab radius in canvas pixels
+const HANDLE_RADIUS = 18;
+
+const HANDLES: CropHandle[] = ["nw", "ne", "sw", "se"];
+
+const segmentClass = (active: boolean) =>
+  `px-3 py-0.5 rounded-full font-semibold transition-colors ${
+    active ? "bg-purple-500 text-white" : "text-gray-300 hover:text-white"
+  }`;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const handlePosition = (rect: CropRect, handle: CropHandle) => ({
+  x: handle === "nw" || handle === "sw" ? rect.x : rect.x + rect.width,
+  y: handle === "nw" || handle === "ne" ? rect.y : rect.y + rect.height,
+});
+
+/**
+ * Rotates, flips and crops the photo before the effect. The rectangle is
+ * edited locally while dragging and only committed on release, so the
+ * full-resolution render runs once per adjustment.
+ */
+export function CropEditor({ imageUrl, value, onChange }: CropEditorProps) {
+  const [image, setImage] = React.useState<HTMLImageElement | null>(null);
+  const [draft, setDraft] = React.useState<CropRect | null>(null);
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const dragRef = React.useRef<CropDrag | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    const loaded = new Image();
+    loaded.onload = () => !cancelled && setImage(loaded);
+    loaded.src = imageUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  const uprightWidth = image?.naturalWidth ?? 1;
+  const uprightHeight = image?.naturalHeight ?? 1;
+  const oriented = orientedSize(uprightWidth, uprightHeight, value.rotation);
+  const scale = Math.min(1, EDITOR_MAX_DIMENSION / Math.max(oriented.width, oriented.height));
+  const canvasWidth = Math.max(1, Math.round(oriented.width * scale));
+  const canvasHeight = Math.max(1, Math.round(oriented.height * scale));
+  const rect = draft ?? value.rect;
+  const ratio = CROP_ASPECTS.find((a) => a.value === value.aspect)?.ratio ?? null;
+
+  // The whole rotated photo, dimmed outside the crop, with a rule-of-thirds grid
+  React.useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !image) return;
+    const { width, height } = canvas;
+
+    ctx.save();
+    ctx.clearRect(0, 0, width, height);
+    ctx.scale(width / oriented.width, height / oriented.height);
+    applyCropTransform(
+      ctx,
+      { ...value, rect: FULL_CROP_RECT },
+      image.naturalWidth,
+      image.naturalHeight
+    );
+    ctx.drawImage(image, 0, 0);
+    ctx.restore();
+
+    const x = rect.x * width;
+    const y = rect.y * height;
+    const w = rect.width * width;
+    const h = rect.height * height;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+    ctx.fillRect(0, 0, width, y);
+    ctx.fillRect(0, y + h, width, height - y - h);
+    ctx.fillRect(0, y, x, h);
+    ctx.fillRect(x + w, y, width - x - w, h);
+
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.4)";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (const third of [1 / 3, 2 / 3]) {
+      ctx.moveTo(x + w * third, y);
+      ctx.lineTo(x + w * third, y + h);
+      ctx.moveTo(x, y + h * third);
+      ctx.lineTo(x + w, y + h * third);
+    }
+    ctx.stroke();
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, w, h);
+
+    ctx.fillStyle = "#ffffff";
+    for (const handle of HANDLES) {
+      const p = handlePosition(rect, handle);
+      ctx.fillRect(p.x * width - 5, p.y * height - 5, 10, 10);
+    }
+  }, [image, value, rect, oriented.width, oriented.height, canvasWidth, canvasHeight]);
+
+  const pointAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp01((e.clientX - bounds.left) / bounds.width),
+      y: clamp01((e.clientY - bounds.top) / bounds.height),
+      // Grab radius in fractions, per axis
+      rx: HANDLE_RADIUS / bounds.width,
+      ry: HANDLE_RADIUS / bounds.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y, rx, ry } = pointAt(e);
+    const handle = HANDLES.find((h) => {
+      const p = handlePosition(rect, h);
+      return Math.abs(p.x - x) <= rx && Math.abs(p.y - y) <= ry;
+    });
+    const inside =
+      x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+    if (handle) dragRef.current = { kind: "resize", handle };
+    else if (inside) dragRef.current = { kind: "move", startX: x, startY: y, rect };
+    else return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft(rect);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !draft) return;
+    const { x, y } = pointAt(e);
+    setDraft(
+      drag.kind === "move"
+        ? moveCropRect(drag.rect, x - drag.startX, y - drag.startY)
+        : resizeCropRect(
+            draft,
+            drag.handle,
+            x,
+            y,
+            ratio && relativeRatio(ratio, oriented.width, oriented.height)
+          )
+    );
+  };
+
+  const finishDrag = () => {
+    if (dragRef.current && draft) onChange({ ...value, rect: draft });
+    dragRef.current = null;
+    setDraft(null);
+  };
+
+  return (
+    <div className="w-full max-w-md flex flex-col gap-4 text-sm text-gray-400">
+      <div className="flex flex-wrap justify-center rounded-full bg-gray-700 p-1 self-center">
+        {CROP_ASPECTS.map((aspect) => (
+          <button
+            key={aspect.value}
+            onClick={() =>
+              onChange(setCropAspect(value, aspect.value, uprightWidth, uprightHeight))
+            }
+            aria-pressed={value.aspect === aspect.value}
+            className={segmentClass(value.aspect === aspect.value)}
+          >
+            {aspect.label}
+          </button>
+        ))}
+      </div>
+
+      {image && (
+        <canvas
+          ref={canvasRef}
+          width={canvasWidth}
+          height={canvasHeight}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={finishDrag}
+          onPointerCancel={finishDrag}
+          className="w-full h-auto rounded-lg bg-black touch-none cursor-move"
+        />
+      )}
+      <p className="text-xs text-gray-500">
+        Drag the frame to move it and its corners to resize. The crop carries
+        into the preview and every export; crop before painting a mask, since
+        masks follow the cropped frame.
+      </p>
+
+      <div className="flex flex-wrap gap-4">
+        <button
+          onClick={() => onChange(rotateCrop(value, "ccw", uprightWidth, uprightHeight))}
+          className="underline hover:text-white"
+        >
+          ↺ Rotate left
+        </button>
+        <button
+          onClick={() => onChange(rotateCrop(value, "cw", uprightWidth, uprightHeight))}
+          className="underline hover:text-white"
+        >
+          ↻ Rotate right
+        </button>
+        <button
+          onClick={() => onChange(flipCrop(value, "horizontal"))}
+          aria-pressed={value.flipH}
+          className="underline hover:text-white"
+        >
+          ⇆ Flip horizontal
+        </button>
+        <button
+          onClick={() => onChange(flipCrop(value, "vertical"))}
+          aria-pressed={value.flipV}
+          className="underline hover:text-white"
+        >
+          ⇅ Flip vertical
+        </button>
+        <button
+          onClick={() => onChange(DEFAULT_CROP)}
+          disabled={value.aspect === DEFAULT_CROP.aspect && !isCropActive(value)}
+          className="underline hover:text-white disabled:opacity-40 disabled:no-underline"
+        >
+          Reset crop
+        </button>
+      </div>
+    </div>
+  );
+}
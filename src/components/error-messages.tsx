@@ -0,0 +1,63 @@
+import type { ImageError, ImageErrorReason } from "../validation";
+
+export interface ErrorEntry {
+  id: number;
+  /** Name of the file that caused the error, if there was one */
+  fileName: string | null;
+  error: ImageError;
+}
+
+interface ErrorMessagesProps {
+  errors: ErrorEntry[];
+  onDismiss: (id: number) => void;
+  className?: string;
+}
+
+const REASON_TITLES: Record<ImageErrorReason, string> = {
+  "unsupported-type": "Unsupported file",
+  "too-large": "File too large",
+  "decode-failed": "Couldn't read image",
+  "canvas-too-large": "Image too big for this device",
+  "processing-failed": "Processing failed",
+};
+
+export function ErrorMessages({ errors, onDismiss, className }: ErrorMessagesProps) {
+  if (!errors.length) return null;
+
+  return (
+    <ul className={`w-full flex flex-col gap-2 ${className ?? ""}`}>
+      {errors.map(({ id, fileName, error }) => (
+        <li
+          key={id}
+          role="alert"
+          className="flex items-start gap-3 rounded-lg border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm"
+        >
+          <div className="flex-1">
+            <p className="font-semibold text-red-300">
+              {REASON_TITLES[error.reason]}
+              {fileName && (
+                <span className="font-normal text-red-200/80"> — {fileName}</span>
+              )}
+            </p>
+            <p className="text-red-200/80">{error.message}</p>
+          </div>
+          <button
+            onClick={() => onDismiss(id)}
+            aria-label="Dismiss"
+            className="text-red-300 hover:text-white transition-colors"
+          >
+            <svg
+              className="w-4 h-4"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={2}
+              viewBox="0 0 24 24"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
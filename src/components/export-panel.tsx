@@ -0,0 +1,164 @@
+import {
+  METADATA_FIELDS,
+  type MetadataField,
+  type MetadataSummary,
+} from "../exif";
+import {
+  EXPORT_FORMATS,
+  MAX_DIMENSION_PRESETS,
+  type ExportOptions,
+} from "../export";
+
+interface ExportPanelProps {
+  value: ExportOptions;
+  onChange: (value: ExportOptions) => void;
+  /** Resolved name for the current photo, shown under the template field */
+  fileName?: string;
+  /** What the source photo's EXIF contains, null if it has none */
+  metadataSummary?: MetadataSummary | null;
+}
+
+export function ExportPanel({
+  value,
+  onChange,
+  fileName,
+  metadataSummary,
+}: ExportPanelProps) {
+  const update = (patch: Partial<ExportOptions>) => onChange({ ...value, ...patch });
+
+  const toggleMetadata = (field: MetadataField, keep: boolean) =>
+    update({
+      metadata: keep
+        ? [...value.metadata, field]
+        : value.metadata.filter((f) => f !== field),
+    });
+
+  const found = metadataSummary
+    ? [
+        metadataSummary.camera && `camera (${metadataSummary.camera})`,
+        metadataSummary.date && `date (${metadataSummary.date})`,
+        metadataSummary.author && `author (${metadataSummary.author})`,
+        metadataSummary.hasLocation && "GPS location",
+      ].filter(Boolean)
+    : [];
+
+  return (
+    <div className="w-full max-w-md flex flex-col gap-4 text-sm text-gray-400">
+      <div className="flex items-center justify-between gap-4">
+        <span className="font-medium">Format</span>
+        <div className="inline-flex rounded-full bg-gray-700 p-1">
+          {EXPORT_FORMATS.map((format) => (
+            <button
+              key={format.value}
+              onClick={() => update({ format: format.value })}
+              aria-pressed={value.format === format.value}
+              className={`px-4 py-0.5 rounded-full font-semibold transition-colors ${
+                value.format === format.value
+                  ? "bg-purple-500 text-white"
+                  : "text-gray-300 hover:text-white"
+              }`}
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block font-medium">
+          Quality{value.format === "png" && " (lossless)"}
+        </label>
+        <input
+          type="range"
+          min="0.5"
+          max="1"
+          step="0.01"
+          value={value.quality}
+          disabled={value.format === "png"}
+          onChange={(e) => update({ quality: parseFloat(e.target.value) })}
+          className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+        />
+        <span>{Math.round(value.quality * 100)}%</span>
+      </div>
+
+      <label className="flex items-center justify-between gap-4">
+        <span className="font-medium">Max size</span>
+        <select
+          value={value.maxDimension ?? ""}
+          onChange={(e) =>
+            update({ maxDimension: e.target.value ? Number(e.target.value) : null })
+          }
+          className="bg-gray-700 text-gray-200 rounded-md px-2 py-1"
+        >
+          {MAX_DIMENSION_PRESETS.map((size) => (
+            <option key={size ?? "original"} value={size ?? ""}>
+              {size ? `${size}px longest edge` : "Original size"}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-start gap-2">
+        <input
+          type="checkbox"
+          checked={value.wideGamut}
+          onChange={(e) => update({ wideGamut: e.target.checked })}
+          className="mt-1"
+        />
+        <span>
+          <span className="font-medium">Keep wide-gamut color</span>
+          <span className="block text-xs text-gray-500">
+            Display P3 photos, e.g. from iPhones, stay in P3 with the profile embedded.
+            Turn off for apps that ignore color profiles; those get sRGB.
+          </span>
+        </span>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="font-medium">File name</span>
+        <input
+          type="text"
+          value={value.fileNameTemplate}
+          onChange={(e) => update({ fileNameTemplate: e.target.value })}
+          spellCheck={false}
+          className="bg-gray-700 text-gray-200 rounded-md px-2 py-1 font-mono"
+        />
+        <span className="text-xs text-gray-500">
+          Tokens: {"{name} {mode} {format} {date}"}
+          {fileName && (
+            <>
+              {" "}→ <span className="text-gray-300">{fileName}</span>
+            </>
+          )}
+        </span>
+      </label>
+
+      <fieldset className="flex flex-col gap-1" disabled={value.format !== "jpeg"}>
+        <legend className="font-medium mb-1">Metadata</legend>
+        <p className="text-xs text-gray-500">
+          {found.length
+            ? `This photo contains ${found.join(", ")}.`
+            : "No EXIF metadata found in this photo."}{" "}
+          Everything is stripped unless you keep it below
+          {value.format !== "jpeg" && " (JPEG export only)"}.
+        </p>
+        {METADATA_FIELDS.map((field) => (
+          <label
+            key={field.value}
+            className={`flex items-center gap-2 ${value.format !== "jpeg" ? "opacity-40" : ""}`}
+          >
+            <input
+              type="checkbox"
+              checked={value.metadata.includes(field.value)}
+              onChange={(e) => toggleMetadata(field.value, e.target.checked)}
+            />
+            <span>Keep {field.label.toLowerCase()}</span>
+            {field.value === "location" && value.metadata.includes("location") && (
+              <span className="text-xs text-amber-400">reveals where it was taken</span>
+            )}
+          </label>
+        ))}
+      </fieldset>
+    </div>
+  );
+}
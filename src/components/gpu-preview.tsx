@@ -0,0 +1,134 @@
+import * as React from "react";
+import {
+  isCropActive,
+  isMaskActive,
+  renderMask,
+  type CropSettings,
+  type EffectSettings,
+  type MaskSettings,
+  type WorkingColorSpace,
+} from "../lib";
+import { renderCrop } from "../crop";
+import { readColorSpace } from "../encode";
+import { fitDimensions } from "../export";
+import {
+  createDuotoneRenderer,
+  type DuotoneRenderer,
+} from "../gl/duotone-renderer";
+
+interface GpuPreviewProps {
+  source: Blob;
+  settings: EffectSettings;
+  crop?: CropSettings | null;
+  mask?: MaskSettings | null;
+  /** Preview in Display P3 when the source is; off matches an sRGB export */
+  wideGamut: boolean;
+  className?: string;
+  /** Called with false if the GPU path fails so the caller can fall back */
+  onAvailabilityChange?: (available: boolean) => void;
+}
+
+// Longest preview edge; plenty for on-screen display and keeps uploads fast
+const PREVIEW_MAX_DIMENSION = 2048;
+
+export function GpuPreview({
+  source,
+  settings,
+  crop,
+  mask,
+  wideGamut,
+  className,
+  onAvailabilityChange,
+}: GpuPreviewProps) {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const rendererRef = React.useRef<DuotoneRenderer | null>(null);
+  const [imageVersion, setImageVersion] = React.useState(0);
+  const [maskVersion, setMaskVersion] = React.useState(0);
+
+  React.useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const renderer = createDuotoneRenderer(canvas);
+    rendererRef.current = renderer;
+    onAvailabilityChange?.(!!renderer);
+    return () => {
+      renderer?.dispose();
+      rendererRef.current = null;
+    };
+  }, [onAvailabilityChange]);
+
+  // Decode a downscaled copy of the source for the texture
+  React.useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    let cancelled = false;
+
+    (async () => {
+      // Same choice as the export, so the preview shows what will be saved
+      const colorSpace: WorkingColorSpace =
+        wideGamut && (await readColorSpace(source)) === "display-p3" ? "display-p3" : "srgb";
+      const full = await createImageBitmap(source, {
+        imageOrientation: "from-image",
+      });
+      const maxDimension = Math.min(PREVIEW_MAX_DIMENSION, renderer.maxTextureSize);
+      const { width, height } = fitDimensions(full.width, full.height, maxDimension);
+      const preview = isCropActive(crop)
+        ? renderCrop(full, crop, maxDimension, colorSpace).transferToImageBitmap()
+        : width === full.width
+          ? full
+          : await createImageBitmap(full, {
+              resizeWidth: width,
+              resizeHeight: height,
+              resizeQuality: "high",
+            });
+      if (preview !== full) full.close();
+
+      if (cancelled) {
+        preview.close();
+        return;
+      }
+      renderer.setColorSpace(colorSpace);
+      renderer.setImage(preview);
+      preview.close();
+      setImageVersion((v) => v + 1);
+    })().catch((error) => {
+      console.error("Error preparing GPU preview:", error);
+      if (!cancelled) onAvailabilityChange?.(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, crop, wideGamut, onAvailabilityChange]);
+
+  // Rasterize the mask at preview size; feathering makes this the slow part,
+  // so it only reruns when the mask or image changes
+  React.useEffect(() => {
+    const renderer = rendererRef.current;
+    const canvas = canvasRef.current;
+    if (!renderer || !canvas || !imageVersion) return;
+
+    let coverage: Uint8ClampedArray | null = null;
+    if (isMaskActive(mask)) {
+      const scratch = document.createElement("canvas");
+      scratch.width = canvas.width;
+      scratch.height = canvas.height;
+      const ctx = scratch.getContext("2d", { willReadFrequently: true });
+      if (ctx) coverage = renderMask(ctx, mask, canvas.width, canvas.height);
+    }
+    renderer.setMask(coverage);
+    setMaskVersion((v) => v + 1);
+  }, [mask, imageVersion]);
+
+  // Redraw on every settings change; this is cheap enough to run per frame
+  React.useEffect(() => {
+    if (imageVersion) rendererRef.current?.render(settings);
+  }, [settings, imageVersion, maskVersion]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`${className ?? ""} ${imageVersion ? "" : "invisible"}`}
+    />
+  );
+}
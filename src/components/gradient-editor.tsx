@@ -0,0 +1,138 @@
+import * as React from "react";
+import {
+  MAX_GRADIENT_STOPS,
+  MIN_GRADIENT_STOPS,
+  addGradientStop,
+  gradientCss,
+  removeGradientStop,
+  type ColorInterpolation,
+  type GradientStop,
+} from "../lib";
+import { ColorPicker } from "./color-picker";
+
+interface GradientEditorProps {
+  value: GradientStop[];
+  onChange: (value: GradientStop[]) => void;
+  /** How colors between the stops are mixed, for new stops and the preview */
+  interpolation?: ColorInterpolation;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Gradient bar with draggable color stops. Click the bar to add a stop, drag
+ * a handle to move it, and edit or remove the selected stop below.
+ */
+export function GradientEditor({ value, onChange, interpolation = "srgb" }: GradientEditorProps) {
+  const [selected, setSelected] = React.useState(0);
+  const barRef = React.useRef<HTMLDivElement>(null);
+  const draggingRef = React.useRef<number | null>(null);
+
+  // Another preset or an undo can shrink the list under the selection
+  const current = Math.min(selected, value.length - 1);
+  const stop = value[current];
+
+  const positionAt = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return clamp01((clientX - rect.left) / rect.width);
+  };
+
+  const updateStop = (index: number, patch: Partial<GradientStop>) =>
+    onChange(value.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+
+  const removeStop = (index: number) => {
+    onChange(removeGradientStop(value, index));
+    setSelected(Math.max(0, index - 1));
+  };
+
+  const handleBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (value.length >= MAX_GRADIENT_STOPS) return;
+    onChange(addGradientStop(value, positionAt(e.clientX), interpolation));
+    setSelected(value.length);
+  };
+
+  const handleStopPointerDown = (index: number) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    draggingRef.current = index;
+    setSelected(index);
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handleStopPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (draggingRef.current === null) return;
+    updateStop(draggingRef.current, {
+      position: Math.round(positionAt(e.clientX) * 1000) / 1000,
+    });
+  };
+
+  const stopDragging = () => {
+    draggingRef.current = null;
+  };
+
+  const handleStopKeyDown = (index: number) => (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = e.shiftKey ? 0.1 : 0.01;
+    const position = value[index].position;
+    if (e.key === "ArrowLeft") updateStop(index, { position: clamp01(position - step) });
+    else if (e.key === "ArrowRight") updateStop(index, { position: clamp01(position + step) });
+    else if (e.key === "Delete" || e.key === "Backspace") removeStop(index);
+    else return;
+    e.preventDefault();
+  };
+
+  return (
+    <div className="w-full max-w-md flex flex-col gap-4 text-sm text-gray-400">
+      <div className="relative pb-5">
+        <div
+          ref={barRef}
+          onClick={handleBarClick}
+          title={
+            value.length < MAX_GRADIENT_STOPS
+              ? "Click to add a color stop"
+              : `Up to ${MAX_GRADIENT_STOPS} stops`
+          }
+          className="h-8 rounded-lg border border-gray-600 cursor-copy"
+          style={{ background: gradientCss(value, "90deg", interpolation) }}
+        />
+        {value.map((s, index) => (
+          <div
+            key={index}
+            role="slider"
+            tabIndex={0}
+            aria-label={`Color stop ${index + 1}`}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(s.position * 100)}
+            onPointerDown={handleStopPointerDown(index)}
+            onPointerMove={handleStopPointerMove}
+            onPointerUp={stopDragging}
+            onPointerCancel={stopDragging}
+            onKeyDown={handleStopKeyDown(index)}
+            onFocus={() => setSelected(index)}
+            className={`absolute top-6 -ml-2 w-4 h-4 rounded-full border-2 cursor-ew-resize touch-none focus:outline-none ${
+              index === current ? "border-white ring-2 ring-purple-400" : "border-gray-300"
+            }`}
+            style={{ left: `${s.position * 100}%`, background: s.color }}
+          />
+        ))}
+      </div>
+
+      {stop && (
+        <div className="flex items-end justify-center gap-6">
+          <ColorPicker
+            label={`Stop ${current + 1} at ${Math.round(stop.position * 100)}%`}
+            value={stop.color}
+            onChange={(color) => updateStop(current, { color })}
+          />
+          <button
+            onClick={() => removeStop(current)}
+            disabled={value.length <= MIN_GRADIENT_STOPS}
+            className="mb-2 underline hover:text-white disabled:opacity-40 disabled:no-underline"
+          >
+            Remove stop
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import * as React from "react";
+import { drawMaskShapes, type MaskSettings, type MaskShape } from "../lib";
+
+interface MaskEditorProps {
+  /** URL of the unprocessed photo to paint on */
+  imageUrl: string;
+  value: MaskSettings;
+  onChange: (value: MaskSettings) => void;
+}
+
+type MaskTool = "brush" | "eraser" | "rect" | "ellipse";
+
+const TOOLS: { value: MaskTool; label: string }[] = [
+  { value: "brush", label: "Brush" },
+  { value: "eraser", label: "Eraser" },
+  { value: "rect", label: "Rectangle" },
+  { value: "ellipse", label: "Ellipse" },
+];
+
+const SHAPE_LABELS: Record<MaskShape["kind"], string> = {
+  stroke: "Brush stroke",
+  rect: "Rectangle",
+  ellipse: "Ellipse",
+};
+
+// Overlay resolution; the mask itself is resolution independent
+const OVERLAY_MAX_DIMENSION = 1024;
+// Skip brush points closer than this (fraction of the image) to the last one
+const MIN_POINT_DISTANCE = 0.002;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Paints the mask over the photo. Shapes are listed below the canvas so any
+ * of them can be flipped between adding and erasing, or removed, later on.
+ */
+export function MaskEditor({ imageUrl, value, onChange }: MaskEditorProps) {
+  const [tool, setTool] = React.useState<MaskTool>("brush");
+  const [brushSize, setBrushSize] = React.useState(0.05);
+  const [draft, setDraft] = React.useState<MaskShape | null>(null);
+  const [size, setSize] = React.useState<{ width: number; height: number } | null>(null);
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+
+  const update = (patch: Partial<MaskSettings>) => onChange({ ...value, ...patch });
+
+  // Tint where the effect will apply; feathering is left to the real preview
+  React.useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !size) return;
+    const shapes = draft ? [...value.shapes, draft] : value.shapes;
+    if (shapes.length === 0) {
+      // No shapes means no mask at all, even when inverted
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+    drawMaskShapes(ctx, shapes, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = value.invert ? "source-out" : "source-in";
+    ctx.fillStyle = "rgba(236, 72, 153, 0.5)";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = "source-over";
+  }, [value, draft, size]);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    const scale = Math.min(1, OVERLAY_MAX_DIMENSION / Math.max(naturalWidth, naturalHeight));
+    setSize({
+      width: Math.max(1, Math.round(naturalWidth * scale)),
+      height: Math.max(1, Math.round(naturalHeight * scale)),
+    });
+  };
+
+  const pointAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [
+      clamp01((e.clientX - rect.left) / rect.width),
+      clamp01((e.clientY - rect.top) / rect.height),
+    ];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const [x, y] = pointAt(e);
+    if (tool === "brush" || tool === "eraser") {
+      setDraft({ kind: "stroke", points: [x, y], size: brushSize, erase: tool === "eraser" });
+    } else {
+      // Alt/Option subtracts the selection instead of adding it
+      setDraft({ kind: tool, x, y, width: 0, height: 0, erase: e.altKey });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const [x, y] = pointAt(e);
+    if (draft.kind === "stroke") {
+      const { points } = draft;
+      const dx = x - points[points.length - 2];
+      const dy = y - points[points.length - 1];
+      if (Math.hypot(dx, dy) < MIN_POINT_DISTANCE) return;
+      setDraft({ ...draft, points: [...points, x, y] });
+    } else {
+      setDraft({ ...draft, width: x - draft.x, height: y - draft.y });
+    }
+  };
+
+  const finishShape = () => {
+    if (!draft) return;
+    const empty = draft.kind !== "stroke" && (draft.width === 0 || draft.height === 0);
+    if (!empty) update({ shapes: [...value.shapes, draft] });
+    setDraft(null);
+  };
+
+  const updateShape = (index: number, patch: Partial<MaskShape>) =>
+    update({
+      shapes: value.shapes.map((shape, i) =>
+        i === index ? ({ ...shape, ...patch } as MaskShape) : shape
+      ),
+    });
+
+  return (
+    <div className="w-full max-w-md flex flex-col gap-4 text-sm text-gray-400">
+      <div className="inline-flex self-center rounded-full bg-gray-700 p-1">
+        {TOOLS.map((t) => (
+          <button
+            key={t.value}
+            onClick={() => setTool(t.value)}
+            aria-pressed={tool === t.value}
+            className={`px-3 py-0.5 rounded-full font-semibold transition-colors ${
+              tool === t.value ? "bg-purple-500 text-white" : "text-gray-300 hover:text-white"
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative w-full overflow-hidden rounded-lg bg-black select-none">
+        <img
+          src={imageUrl}
+          alt="Mask source"
+          draggable={false}
+          onLoad={handleImageLoad}
+          className="block w-full h-auto"
+        />
+        {size && (
+          <canvas
+            ref={canvasRef}
+            width={size.width}
+            height={size.height}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={finishShape}
+            onPointerCancel={finishShape}
+            className="absolute inset-0 w-full h-full touch-none cursor-crosshair"
+          />
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Paint or drag where the effect should apply. Hold Alt/⌥ while dragging a
+        rectangle or ellipse to subtract it. Without shapes the effect covers
+        the whole photo.
+      </p>
+
+      {(tool === "brush" || tool === "eraser") && (
+        <label className="block">
+          <span className="font-medium">Brush size</span>
+          <input
+            type="range"
+            min="0.005"
+            max="0.25"
+            step="0.005"
+            value={brushSize}
+            onChange={(e) => setBrushSize(parseFloat(e.target.value))}
+            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+          />
+        </label>
+      )}
+
+      <label className="block">
+        <span className="font-medium">Feather</span>
+        <input
+          type="range"
+          min="0"
+          max="0.1"
+          step="0.002"
+          value={value.feather}
+          onChange={(e) => update({ feather: parseFloat(e.target.value) })}
+          className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+        />
+      </label>
+
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={value.invert}
+          onChange={(e) => update({ invert: e.target.checked })}
+        />
+        Invert (apply the effect outside the shapes)
+      </label>
+
+      {value.shapes.length > 0 && (
+        <ul className="flex flex-col gap-1">
+          {value.shapes.map((shape, index) => (
+            <li
+              key={index}
+              className="flex items-center justify-between gap-2 rounded-md bg-gray-700 px-3 py-1 text-gray-200"
+            >
+              <span>
+                {index + 1}. {SHAPE_LABELS[shape.kind]}
+              </span>
+              <span className="flex items-center gap-3">
+                <button
+                  onClick={() => updateShape(index, { erase: !shape.erase })}
+                  className="text-gray-400 hover:text-white underline"
+                >
+                  {shape.erase ? "Subtracts" : "Adds"}
+                </button>
+                <button
+                  onClick={() =>
+                    update({ shapes: value.shapes.filter((_, i) => i !== index) })
+                  }
+                  aria-label={`Remove shape ${index + 1}`}
+                  className="text-gray-400 hover:text-white"
+                >
+                  ×
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-4">
+        <button
+          onClick={() => update({ shapes: value.shapes.slice(0, -1) })}
+          disabled={value.shapes.length === 0}
+          className="underline hover:text-white disabled:opacity-40 disabled:no-underline"
+        >
+          Undo last shape
+        </button>
+        <button
+          onClick={() => update({ shapes: [] })}
+          disabled={value.shapes.length === 0}
+          className="underline hover:text-white disabled:opacity-40 disabled:no-underline"
+        >
+          Clear mask
+        </button>
+      </div>
+    </div>
+  );
+}
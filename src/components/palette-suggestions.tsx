@@ -0,0 +1,161 @@
+import * as React from "react";
+import { fitDimensions } from "../export";
+import {
+  applyEffectToPixels,
+  extractColors,
+  suggestDuotonePairs,
+  type DuotoneColors,
+  type EffectSettings,
+} from "../lib";
+import { LOGO_TYPES, loadLogo, logoSize } from "../poster";
+
+interface PaletteSuggestionsProps {
+  /** URL of the cropped photo, read for colors and shown in the previews */
+  imageUrl: string;
+  settings: EffectSettings;
+  onApply: (colors: DuotoneColors) => void;
+}
+
+// Longest edge of the copies colors are read from and previews are drawn at
+const SAMPLE_MAX_DIMENSION = 160;
+
+const readPixels = async (src: string) => {
+  const image = await loadLogo(src);
+  const natural = logoSize(image);
+  const { width, height } = fitDimensions(natural.width, natural.height, SAMPLE_MAX_DIMENSION);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is unavailable");
+  ctx.drawImage(image, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Suggests shadow/highlight pairs taken from the photo's own colors, or from
+ * an uploaded logo to match a brand, each previewed on a thumbnail of the
+ * photo with the current tone settings.
+ */
+export function PaletteSuggestions({ imageUrl, settings, onApply }: PaletteSuggestionsProps) {
+  const [photo, setPhoto] = React.useState<ImageData | null>(null);
+  const [brand, setBrand] = React.useState<{ name: string; pixels: ImageData } | null>(null);
+  const [status, setStatus] = React.useState<string | null>(null);
+  const thumbnailsRef = React.useRef<(HTMLCanvasElement | null)[]>([]);
+  const logoInputRef = React.useRef<HTMLInputElement>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    readPixels(imageUrl)
+      .then((pixels) => {
+        if (!cancelled) setPhoto(pixels);
+      })
+      .catch((error) => console.error("Error reading photo colors:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  const pairs = React.useMemo(() => {
+    const source = brand?.pixels ?? photo;
+    return source ? suggestDuotonePairs(extractColors(source.data)) : [];
+  }, [photo, brand]);
+
+  // Redrawn when tone or luminance settings change; the pair's colors win
+  React.useEffect(() => {
+    if (!photo) return;
+    pairs.forEach((colors, i) => {
+      const canvas = thumbnailsRef.current[i];
+      const ctx = canvas?.getContext("2d");
+      if (!canvas || !ctx) return;
+      canvas.width = photo.width;
+      canvas.height = photo.height;
+      const preview = new ImageData(new Uint8ClampedArray(photo.data), photo.width, photo.height);
+      applyEffectToPixels(preview.data, { ...settings, mode: "duotone", colors });
+      ctx.putImageData(preview, 0, 0);
+    });
+  }, [photo, pairs, settings]);
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (!LOGO_TYPES.includes(file.type)) {
+      setStatus("Use a PNG, JPEG, WebP or SVG logo");
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    try {
+      const pixels = await readPixels(url);
+      if (extractColors(pixels.data).length === 0) {
+        setStatus("The logo has no visible colors");
+        return;
+      }
+      setBrand({ name: file.name, pixels });
+      setStatus(null);
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  return (
+    <div className="mt-6 w-full max-w-md text-sm text-gray-400">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <p className="min-w-0 truncate">
+          {brand ? `Matched to ${brand.name}` : "Suggested from your photo"}
+        </p>
+        {brand ? (
+          <button onClick={() => setBrand(null)} className="underline hover:text-white">
+            Use photo colors
+          </button>
+        ) : (
+          <button
+            onClick={() => logoInputRef.current?.click()}
+            className="underline hover:text-white"
+          >
+            Match brand…
+          </button>
+        )}
+        <input
+          ref={logoInputRef}
+          type="file"
+          accept={LOGO_TYPES.join(",")}
+          className="hidden"
+          onChange={handleLogoUpload}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {pairs.map(({ shadow, highlight, contrast }, i) => (
+          <button
+            key={`${shadow}-${highlight}`}
+            onClick={() => onApply({ shadow, highlight })}
+            title={`${shadow} / ${highlight}, contrast ${contrast.toFixed(1)}:1`}
+            className={`flex flex-col gap-1 rounded-lg p-1 ${
+              settings.colors.shadow === shadow && settings.colors.highlight === highlight
+                ? "bg-purple-500/30 ring-1 ring-purple-400"
+                : "bg-gray-700 hover:bg-gray-600"
+            }`}
+          >
+            <canvas
+              ref={(canvas) => {
+                thumbnailsRef.current[i] = canvas;
+              }}
+              className="block w-full h-20 object-cover rounded-md"
+            />
+            <span
+              className="h-2 rounded-full"
+              style={{ background: `linear-gradient(90deg, ${shadow} 50%, ${highlight} 50%)` }}
+            />
+          </button>
+        ))}
+      </div>
+
+      {status && (
+        <p role="status" className="mt-2 text-gray-500">
+          {status}
+        </p>
+      )}
+    </div>
+  );
+}
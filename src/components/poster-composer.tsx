@@ -0,0 +1,357 @@
+import * as React from "react";
+import {
+  POSTER_FRAMES,
+  posterSize,
+  type Poster,
+  type PosterLayer,
+} from "../lib";
+import { LOGO_TYPES, drawPoster, loadLogo, type LayerBounds } from "../poster";
+import { ColorPicker } from "./color-picker";
+
+interface PosterComposerProps {
+  /** URL of the processed image the layout sits on */
+  imageUrl: string;
+  value: Poster;
+  onChange: (value: Poster) => void;
+}
+
+const DEFAULT_BACKGROUND = "#165027";
+
+// Preview resolution; the export is drawn again at full size
+const PREVIEW_MAX_DIMENSION = 720;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const segmentClass = (active: boolean) =>
+  `px-3 py-0.5 rounded-full font-semibold transition-colors ${
+    active ? "bg-purple-500 text-white" : "text-gray-300 hover:text-white"
+  }`;
+
+/**
+ * Lays out text and logos over the result in a poster frame. Drag layers on
+ * the preview to move them; the same drawing code flattens the export.
+ */
+export function PosterComposer({ imageUrl, value, onChange }: PosterComposerProps) {
+  const [image, setImage] = React.useState<HTMLImageElement | null>(null);
+  const [logos, setLogos] = React.useState(() => new Map<string, HTMLImageElement>());
+  const [selectedId, setSelectedId] = React.useState<number | null>(null);
+  // Remembered so turning the fill off and on again keeps the color
+  const [lastBackground, setLastBackground] = React.useState(
+    value.background ?? DEFAULT_BACKGROUND
+  );
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const boundsRef = React.useRef<LayerBounds[]>([]);
+  const dragRef = React.useRef<{ id: number; dx: number; dy: number } | null>(null);
+  const logoInputRef = React.useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<Poster>) => onChange({ ...value, ...patch });
+  const selected = value.layers.find((layer) => layer.id === selectedId) ?? null;
+
+  React.useEffect(() => {
+    let cancelled = false;
+    loadLogo(imageUrl).then((loaded) => !cancelled && setImage(loaded), console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  // Load logos that appeared since the last render
+  React.useEffect(() => {
+    const missing = value.layers.filter(
+      (layer): layer is Extract<PosterLayer, { kind: "logo" }> =>
+        layer.kind === "logo" && !logos.has(layer.src)
+    );
+    if (missing.length === 0) return;
+    Promise.all(missing.map((layer) => loadLogo(layer.src).then((logo) => [layer.src, logo] as const)))
+      .then((loaded) => setLogos((prev) => new Map([...prev, ...loaded])))
+      .catch(console.error);
+  }, [value.layers, logos]);
+
+  const previewSize = image
+    ? (() => {
+        const full = posterSize(image.naturalWidth, image.naturalHeight, value.frame);
+        const scale = Math.min(1, PREVIEW_MAX_DIMENSION / Math.max(full.width, full.height));
+        return {
+          width: Math.round(full.width * scale),
+          height: Math.round(full.height * scale),
+        };
+      })()
+    : null;
+
+  React.useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !image) return;
+    boundsRef.current = drawPoster(ctx, image, value, canvas.width, canvas.height, logos);
+    const bounds = boundsRef.current.find((b) => b.id === selectedId);
+    if (bounds) {
+      ctx.setLineDash([6, 4]);
+      ctx.strokeStyle = "#c084fc";
+      ctx.lineWidth = 2;
+      ctx.strokeRect(bounds.x - 4, bounds.y - 4, bounds.width + 8, bounds.height + 8);
+      ctx.setLineDash([]);
+    }
+  }, [image, value, logos, selectedId, previewSize?.width, previewSize?.height]);
+
+  const canvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const updateLayer = (id: number, patch: Partial<PosterLayer>) =>
+    update({
+      layers: value.layers.map((layer) =>
+        layer.id === id ? ({ ...layer, ...patch } as PosterLayer) : layer
+      ),
+    });
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = canvasPoint(e);
+    // Topmost layer wins
+    const hit = [...boundsRef.current]
+      .reverse()
+      .find((b) => x >= b.x && x <= b.x + b.width && y >= b.y && y <= b.y + b.height);
+    setSelectedId(hit?.id ?? null);
+    if (!hit) return;
+
+    const layer = value.layers.find((l) => l.id === hit.id);
+    if (!layer) return;
+    const canvas = e.currentTarget;
+    dragRef.current = {
+      id: hit.id,
+      dx: layer.x - x / canvas.width,
+      dy: layer.y - y / canvas.height,
+    };
+    canvas.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = canvasPoint(e);
+    const canvas = e.currentTarget;
+    updateLayer(drag.id, {
+      x: clamp01(x / canvas.width + drag.dx),
+      y: clamp01(y / canvas.height + drag.dy),
+    });
+  };
+
+  const stopDragging = () => {
+    dragRef.current = null;
+  };
+
+  const nextId = () => Math.max(0, ...value.layers.map((layer) => layer.id)) + 1;
+
+  const addText = () => {
+    const id = nextId();
+    update({
+      layers: [
+        ...value.layers,
+        {
+          kind: "text",
+          id,
+          x: 0.5,
+          y: 0.85,
+          text: "Brave Pink Hero Green",
+          size: 0.07,
+          color: "#ffffff",
+          bold: true,
+        },
+      ],
+    });
+    setSelectedId(id);
+  };
+
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !LOGO_TYPES.includes(file.type)) return;
+    const id = nextId();
+    update({
+      layers: [
+        ...value.layers,
+        { kind: "logo", id, x: 0.5, y: 0.15, src: URL.createObjectURL(file), width: 0.3 },
+      ],
+    });
+    setSelectedId(id);
+  };
+
+  const removeLayer = (id: number) => {
+    const layer = value.layers.find((l) => l.id === id);
+    if (layer?.kind === "logo") URL.revokeObjectURL(layer.src);
+    update({ layers: value.layers.filter((l) => l.id !== id) });
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="w-full max-w-md flex flex-col gap-4 text-sm text-gray-400">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="font-medium">Frame</span>
+        <div className="inline-flex rounded-full bg-gray-700 p-1">
+          {POSTER_FRAMES.map((frame) => (
+            <button
+              key={frame.value}
+              onClick={() => update({ frame: frame.value })}
+              aria-pressed={value.frame === frame.value}
+              className={segmentClass(value.frame === frame.value)}
+            >
+              {frame.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {value.frame !== "original" && (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span className="font-medium">Photo</span>
+          <div className="inline-flex rounded-full bg-gray-700 p-1">
+            <button
+              onClick={() => update({ fit: "cover" })}
+              aria-pressed={value.fit === "cover"}
+              className={segmentClass(value.fit === "cover")}
+            >
+              Fill frame
+            </button>
+            <button
+              onClick={() => update({ fit: "contain" })}
+              aria-pressed={value.fit === "contain"}
+              className={segmentClass(value.fit === "contain")}
+            >
+              Fit inside
+            </button>
+          </div>
+        </div>
+      )}
+
+      {previewSize && (
+        <canvas
+          ref={canvasRef}
+          width={previewSize.width}
+          height={previewSize.height}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={stopDragging}
+          onPointerCancel={stopDragging}
+          className="w-full h-auto rounded-lg touch-none cursor-move"
+        />
+      )}
+
+      <div className="flex flex-wrap gap-4">
+        <button onClick={addText} className="underline hover:text-white">
+          Add text
+        </button>
+        <button
+          onClick={() => logoInputRef.current?.click()}
+          className="underline hover:text-white"
+        >
+          Add logo
+        </button>
+        <input
+          ref={logoInputRef}
+          type="file"
+          accept={LOGO_TYPES.join(",")}
+          className="hidden"
+          onChange={handleLogoUpload}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex items-center gap-2 mb-2">
+          <input
+            type="checkbox"
+            checked={value.background !== null}
+            onChange={(e) => update({ background: e.target.checked ? lastBackground : null })}
+          />
+          Fill background
+        </label>
+        {value.background !== null && (
+          <ColorPicker
+            label="Background"
+            value={value.background}
+            onChange={(background) => {
+              setLastBackground(background);
+              update({ background });
+            }}
+          />
+        )}
+      </div>
+      <p className="text-gray-500">
+        Without a fill, letterboxed and transparent areas stay transparent in PNG and WebP
+        downloads and turn white in JPEG.
+      </p>
+
+      {selected?.kind === "text" && (
+        <div className="flex flex-col gap-3 rounded-lg bg-gray-700/50 p-3">
+          <textarea
+            value={selected.text}
+            onChange={(e) => updateLayer(selected.id, { text: e.target.value })}
+            rows={2}
+            className="bg-gray-700 text-gray-200 rounded-md px-2 py-1"
+          />
+          <label className="block">
+            <span className="font-medium">Size</span>
+            <input
+              type="range"
+              min="0.02"
+              max="0.25"
+              step="0.005"
+              value={selected.size}
+              onChange={(e) => updateLayer(selected.id, { size: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+            />
+          </label>
+          <div className="flex items-end justify-between gap-4">
+            <ColorPicker
+              label="Text color"
+              value={selected.color}
+              onChange={(color) => updateLayer(selected.id, { color })}
+            />
+            <label className="flex items-center gap-2 mb-2">
+              <input
+                type="checkbox"
+                checked={selected.bold}
+                onChange={(e) => updateLayer(selected.id, { bold: e.target.checked })}
+              />
+              Bold
+            </label>
+            <button
+              onClick={() => removeLayer(selected.id)}
+              className="mb-2 underline hover:text-white"
+            >
+              Remove text
+            </button>
+          </div>
+        </div>
+      )}
+
+      {selected?.kind === "logo" && (
+        <div className="flex items-end gap-4 rounded-lg bg-gray-700/50 p-3">
+          <label className="block flex-1">
+            <span className="font-medium">Logo size</span>
+            <input
+              type="range"
+              min="0.05"
+              max="0.9"
+              step="0.01"
+              value={selected.width}
+              onChange={(e) => updateLayer(selected.id, { width: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+            />
+          </label>
+          <button onClick={() => removeLayer(selected.id)} className="underline hover:text-white">
+            Remove logo
+          </button>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Drag text and logos on the preview to place them. Downloads and copies
+        include the layout; posters are exported without photo metadata.
+      </p>
+    </div>
+  );
+}
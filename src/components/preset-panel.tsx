@@ -0,0 +1,163 @@
+import * as React from "react";
+import { downloadBlob } from "../download";
+import { usePresets } from "../hooks/use-presets";
+import {
+  BUILT_IN_PRESETS,
+  encodeSettingsHash,
+  gradientCss,
+  settingsEqual,
+  type EffectSettings,
+  type Preset,
+} from "../lib";
+
+interface PresetPanelProps {
+  settings: EffectSettings;
+  onApply: (settings: EffectSettings) => void;
+}
+
+const swatch = ({ settings }: Preset) => {
+  if (settings.mode === "duotone") {
+    const { shadow, highlight } = settings.colors;
+    return `linear-gradient(90deg, ${shadow} 50%, ${highlight} 50%)`;
+  }
+  if (settings.mode === "gradient") {
+    return gradientCss(settings.gradient, "90deg", settings.interpolation);
+  }
+  // Classic output ranges from black to white scaled by the multipliers
+  const { redMultiplier, greenMultiplier, blueMultiplier } = settings.classic;
+  const channel = (multiplier: number) => Math.min(255, Math.round(255 * multiplier));
+  return `linear-gradient(90deg, #000 50%, rgb(${channel(redMultiplier)} ${channel(greenMultiplier)} ${channel(blueMultiplier)}) 50%)`;
+};
+
+export function PresetPanel({ settings, onApply }: PresetPanelProps) {
+  const { presets, savePreset, removePreset, importPresets, exportPresets } =
+    usePresets();
+  const [name, setName] = React.useState("");
+  const [status, setStatus] = React.useState<string | null>(null);
+  const importInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      savePreset(name, settings);
+      setStatus(`Saved "${name.trim()}"`);
+      setName("");
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const imported = await importPresets(file);
+      setStatus(`Imported ${imported.length} preset${imported.length === 1 ? "" : "s"}`);
+    } catch (error) {
+      setStatus(`Import failed: ${(error as Error).message}`);
+    }
+  };
+
+  const handleShare = async () => {
+    const url = new URL(window.location.href);
+    url.hash = encodeSettingsHash(settings);
+    try {
+      await navigator.clipboard.writeText(url.href);
+      setStatus("Share link copied");
+    } catch {
+      window.history.replaceState(null, "", url.href);
+      setStatus("Copy the link from the address bar to share this look");
+    }
+  };
+
+  const renderPreset = (preset: Preset, removable: boolean) => (
+    <div
+      key={`${removable ? "user" : "built-in"}:${preset.name}`}
+      className={`flex items-center rounded-lg text-sm ${
+        settingsEqual(preset.settings, settings)
+          ? "bg-purple-500/30 ring-1 ring-purple-400"
+          : "bg-gray-700 hover:bg-gray-600"
+      }`}
+    >
+      <button
+        onClick={() => onApply(preset.settings)}
+        className="flex flex-1 min-w-0 items-center gap-2 px-3 py-2 text-left"
+      >
+        <span
+          className="w-6 h-6 shrink-0 rounded-full border border-white"
+          style={{ background: swatch(preset) }}
+        />
+        <span className="truncate">{preset.name}</span>
+      </button>
+      {removable && (
+        <button
+          onClick={() => removePreset(preset.name)}
+          aria-label={`Delete preset ${preset.name}`}
+          className="px-2 text-gray-400 hover:text-white"
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="w-full max-w-md flex flex-col gap-4 text-sm text-gray-400">
+      <div className="grid grid-cols-2 gap-2 text-gray-200">
+        {BUILT_IN_PRESETS.map((preset) => renderPreset(preset, false))}
+        {presets.map((preset) => renderPreset(preset, true))}
+      </div>
+
+      <form onSubmit={handleSave} className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name this look"
+          maxLength={60}
+          className="flex-1 min-w-0 bg-gray-700 text-gray-200 rounded-md px-2 py-1"
+        />
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="rounded-md bg-purple-500 px-3 py-1 font-semibold text-white hover:bg-purple-600 disabled:opacity-40"
+        >
+          Save preset
+        </button>
+      </form>
+
+      <div className="flex flex-wrap gap-4">
+        <button onClick={handleShare} className="underline hover:text-white">
+          Copy share link
+        </button>
+        <button
+          onClick={() => downloadBlob(exportPresets(), "brave-pink-presets.json")}
+          disabled={presets.length === 0}
+          className="underline hover:text-white disabled:opacity-40 disabled:no-underline"
+        >
+          Export presets
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="underline hover:text-white"
+        >
+          Import presets
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+
+      {status && (
+        <p role="status" className="text-gray-500">
+          {status}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import * as React from "react";
+import {
+  LUMINANCE_FORMULAS,
+  type LuminanceFormula,
+  type ToneSettings,
+} from "../lib";
+
+interface ToneControlsProps {
+  value: ToneSettings;
+  onChange: (value: ToneSettings) => void;
+}
+
+const SLIDERS: {
+  name: Exclude<keyof ToneSettings, "luminance">;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  digits: number;
+}[] = [
+  { name: "contrast", label: "Contrast", min: 0.5, max: 2, step: 0.05, digits: 2 },
+  { name: "gamma", label: "Gamma", min: 0.3, max: 3, step: 0.05, digits: 2 },
+  { name: "blackPoint", label: "Black Point", min: 0, max: 254, step: 1, digits: 0 },
+  { name: "whitePoint", label: "White Point", min: 1, max: 255, step: 1, digits: 0 },
+];
+
+export function ToneControls({ value, onChange }: ToneControlsProps) {
+  const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value: raw } = e.target;
+    const next = { ...value, [name]: parseFloat(raw) };
+
+    // Keep the levels from crossing so the ratio range never inverts
+    if (name === "blackPoint" && next.blackPoint >= next.whitePoint) {
+      next.whitePoint = next.blackPoint + 1;
+    }
+    if (name === "whitePoint" && next.whitePoint <= next.blackPoint) {
+      next.blackPoint = next.whitePoint - 1;
+    }
+
+    onChange(next);
+  };
+
+  return (
+    <div className="w-full max-w-md">
+      <label className="flex items-center justify-between gap-4 text-sm text-gray-400 mb-4">
+        <span className="font-medium">Luminance</span>
+        <select
+          value={value.luminance}
+          onChange={(e) =>
+            onChange({ ...value, luminance: e.target.value as LuminanceFormula })
+          }
+          className="bg-gray-700 text-gray-200 rounded-md px-2 py-1"
+        >
+          {LUMINANCE_FORMULAS.map((formula) => (
+            <option key={formula.value} value={formula.value}>
+              {formula.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {SLIDERS.map(({ name, label, min, max, step, digits }) => (
+          <div key={name}>
+            <label className="block text-sm font-medium text-gray-400">
+              {label}
+            </label>
+            <input
+              type="range"
+              name={name}
+              min={min}
+              max={max}
+              step={step}
+              value={value[name]}
+              onChange={handleSliderChange}
+              className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+            />
+            <span className="text-sm text-gray-400">
+              {value[name].toFixed(digits)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
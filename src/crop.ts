@@ -0,0 +1,45 @@
+import { fitDimensions } from "./export";
+import {
+  applyCropTransform,
+  cropRegion,
+  type CropSettings,
+  type WorkingColorSpace,
+} from "./lib";
+
+/**
+ * Draws the rotated, flipped and cropped `image` onto a new canvas whose
+ * longest edge is at most `maxDimension`, in `colorSpace`.
+ */
+export const renderCrop = (
+  image: ImageBitmap,
+  crop: CropSettings,
+  maxDimension: number | null,
+  colorSpace: WorkingColorSpace = "srgb"
+) => {
+  const region = cropRegion(image.width, image.height, crop);
+  const { width, height } = fitDimensions(region.width, region.height, maxDimension);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d", { colorSpace });
+  if (!ctx) throw new Error("Canvas is unavailable");
+  ctx.imageSmoothingQuality = "high";
+  ctx.scale(width / region.width, height / region.height);
+  applyCropTransform(ctx, crop, image.width, image.height);
+  ctx.drawImage(image, 0, 0);
+  return canvas;
+};
+
+/**
+ * Renders a downscaled copy of `source` with the crop applied, for showing
+ * the original next to the result.
+ */
+export const renderCropPreview = async (
+  source: Blob,
+  crop: CropSettings,
+  maxDimension: number
+) => {
+  const bitmap = await createImageBitmap(source, { imageOrientation: "from-image" });
+  const canvas = renderCrop(bitmap, crop, maxDimension);
+  bitmap.close();
+  const blob = await canvas.convertToBlob({ type: "image/jpeg", quality: 0.92 });
+  return { blob, width: canvas.width, height: canvas.height };
+};
@@ -0,0 +1,12 @@
+/**
+ * Saves a blob through a temporary link, as if the user clicked a download.
+ */
+export const downloadBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  // Give the browser a tick to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url));
+};
@@ -0,0 +1,49 @@
+import { ACCEPTED_TYPES, CLIP_TYPES } from "./validation";
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// Folders hold all sorts of files (.DS_Store, sidecars); only media is kept
+const isMedia = (file: File) =>
+  ACCEPTED_TYPES.includes(file.type) || CLIP_TYPES.includes(file.type);
+
+const folderFiles = async (directory: FileSystemDirectoryEntry): Promise<File[]> => {
+  const reader = directory.createReader();
+  const files: File[] = [];
+  // readEntries hands out at most 100 entries per call; an empty batch ends it
+  for (let batch = await readEntries(reader); batch.length; batch = await readEntries(reader)) {
+    for (const entry of batch) {
+      if (entry.isDirectory) {
+        files.push(...(await folderFiles(entry as FileSystemDirectoryEntry)));
+      } else if (entry.isFile) {
+        const file = await readFile(entry as FileSystemFileEntry);
+        if (isMedia(file)) files.push(file);
+      }
+    }
+  }
+  return files;
+};
+
+/**
+ * Files dropped on the page, with dropped folders walked recursively.
+ * Loose files are passed through as they are so validation can report them.
+ */
+export const droppedFiles = async (data: DataTransfer): Promise<File[]> => {
+  // Entries have to be taken while the drop event is still being handled
+  const entries = Array.from(data.items, (item) =>
+    item.kind === "file" ? item.webkitGetAsEntry() : null
+  );
+  if (!entries.some((entry) => entry?.isDirectory)) return Array.from(data.files);
+
+  const files = await Promise.all(
+    entries.map((entry) => {
+      if (entry?.isDirectory) return folderFiles(entry as FileSystemDirectoryEntry);
+      if (entry?.isFile) return readFile(entry as FileSystemFileEntry).then((file) => [file]);
+      return [];
+    })
+  );
+  return files.flat();
+};
@@ -0,0 +1,47 @@
+import {
+  COLOR_PROFILE_SCAN_BYTES,
+  detectColorSpace,
+  type WorkingColorSpace,
+} from "./lib";
+import { buildExifSegment, insertExifSegment, type ExifData } from "./exif";
+import { formatInfo, type EncodeOptions } from "./export";
+
+/**
+ * Reads the color space a file declares from its first bytes.
+ */
+export const readColorSpace = async (blob: Blob) =>
+  detectColorSpace(new Uint8Array(await blob.slice(0, COLOR_PROFILE_SCAN_BYTES).arrayBuffer()));
+
+/**
+ * Encodes a finished canvas the way every download is encoded: in the
+ * export format, in Display P3 only when the encoder tagged the file as
+ * such, and with the EXIF fields the user chose to keep.
+ * @param colorSpace - The space the canvas was created in.
+ * @param exif - Metadata of the source, or null when it had none.
+ */
+export const encodeCanvas = async (
+  canvas: OffscreenCanvas,
+  colorSpace: WorkingColorSpace,
+  { format, quality, metadata }: Pick<EncodeOptions, "format" | "quality" | "metadata">,
+  exif: ExifData | null
+) => {
+  const encode = (source: OffscreenCanvas) =>
+    source.convertToBlob({ type: formatInfo(format).mime, quality });
+  let blob = await encode(canvas);
+  // Untagged files are read as sRGB, so P3 pixels are only safe to ship
+  // if the encoder embedded the profile; otherwise convert and re-encode
+  if (colorSpace === "display-p3" && (await readColorSpace(blob)) !== "display-p3") {
+    const srgb = new OffscreenCanvas(canvas.width, canvas.height);
+    srgb.getContext("2d")?.drawImage(canvas, 0, 0);
+    blob = await encode(srgb);
+  }
+
+  // Re-encoding drops all metadata; put back only what the user opted into
+  const segment =
+    exif && format === "jpeg" && metadata.length ? buildExifSegment(exif, metadata) : null;
+  if (segment) {
+    const jpeg = new Uint8Array(await blob.arrayBuffer());
+    blob = new Blob([insertExifSegment(jpeg, segment)], { type: blob.type });
+  }
+  return blob;
+};
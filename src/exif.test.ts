@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { readExif } from "./exif";
+
+const uint16 = (value: number) => [value >> 8, value & 0xff];
+const uint32 = (value: number) => [...uint16(value >>> 16), ...uint16(value & 0xffff)];
+
+// Big-endian IFD0 entry with the value stored inline
+const entry = (tag: number, type: number, count: number, value: number[]) => [
+  ...uint16(tag),
+  ...uint16(type),
+  ...uint32(count),
+  ...value,
+  ...new Array(4 - value.length).fill(0),
+];
+
+const jpeg = (entries: number[][]) => {
+  const tiff = [
+    0x4d, 0x4d, 0, 42, ...uint32(8),
+    ...uint16(entries.length), ...entries.flat(), ...uint32(0),
+  ];
+  const app1 = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff];
+  const bytes = [0xff, 0xd8, 0xff, 0xe1, ...uint16(app1.length + 2), ...app1, 0xff, 0xda];
+  return Uint8Array.from(bytes).buffer;
+};
+
+describe("readExif", () => {
+  it("reads a SHORT orientation", () => {
+    expect(readExif(jpeg([entry(0x0112, 3, 1, uint16(6))]))?.orientation).toBe(6);
+  });
+
+  it("accepts other integer widths for orientation and IFD pointers", () => {
+    const data = readExif(
+      jpeg([entry(0x0112, 1, 1, [8]), entry(0x8769, 3, 1, uint16(0x4000))])
+    );
+    expect(data?.orientation).toBe(8);
+    // The pointer leads past the end of the data, so the IFD is just empty
+    expect(data?.exif).toEqual([]);
+  });
+
+  it("ignores orientations of the wrong type or out of range", () => {
+    expect(readExif(jpeg([entry(0x0112, 2, 2, [0x36, 0])]))?.orientation).toBe(1);
+    expect(readExif(jpeg([entry(0x0112, 3, 1, uint16(42))]))?.orientation).toBe(1);
+  });
+
+  it("returns null instead of throwing on truncated segments", () => {
+    const full = new Uint8Array(jpeg([entry(0x0112, 3, 1, uint16(6))]));
+    for (let length = 2; length < full.length; length++) {
+      expect(() => readExif(full.slice(0, length).buffer)).not.toThrow();
+    }
+    expect(readExif(full.slice(0, 14).buffer)).toBeNull();
+  });
+});
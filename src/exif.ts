@@ -0,0 +1,298 @@
+/**
+ * Minimal EXIF support for JPEG files: reading orientation and a handful of
+ * metadata fields, and writing a fresh EXIF segment containing only the
+ * fields the user chose to keep.
+ */
+
+/**
+ * A raw IFD entry. `value` holds the entry's bytes in the source byte order,
+ * so entries can be copied to a new segment without understanding every type.
+ */
+interface ExifEntry {
+  tag: number;
+  type: number;
+  count: number;
+  value: Uint8Array;
+}
+
+export interface ExifData {
+  littleEndian: boolean;
+  /** 1-8 per the EXIF spec, 1 meaning "already upright" */
+  orientation: number;
+  ifd0: ExifEntry[];
+  exif: ExifEntry[];
+  gps: ExifEntry[];
+}
+
+/**
+ * Groups of tags that can be carried into the exported JPEG.
+ */
+export type MetadataField = "camera" | "date" | "author" | "location";
+
+export const METADATA_FIELDS: { value: MetadataField; label: string }[] = [
+  { value: "camera", label: "Camera & lens" },
+  { value: "date", label: "Date taken" },
+  { value: "author", label: "Artist & copyright" },
+  { value: "location", label: "GPS location" },
+];
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+
+const TYPE_BYTE = 1;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_IFD = 13;
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4,
+};
+
+// IFD0 and Exif IFD tags belonging to each field; "location" is the whole GPS IFD
+const FIELD_TAGS: Record<Exclude<MetadataField, "location">, { ifd0: number[]; exif: number[] }> = {
+  camera: { ifd0: [0x010f, 0x0110], exif: [0xa433, 0xa434] },
+  date: { ifd0: [0x0132], exif: [0x9003, 0x9004] },
+  author: { ifd0: [0x013b, 0x8298], exif: [] },
+};
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+// EXIF lives in the first APP1 segment, which can't exceed 64KB
+export const EXIF_SCAN_BYTES = 128 * 1024;
+
+const readIfd = (
+  view: DataView,
+  tiff: number,
+  offset: number,
+  le: boolean
+): ExifEntry[] => {
+  const start = tiff + offset;
+  if (start + 2 > view.byteLength) return [];
+  const count = view.getUint16(start, le);
+  const entries: ExifEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, le);
+    const type = view.getUint16(entry + 2, le);
+    const valueCount = view.getUint32(entry + 4, le);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    if (!size) continue;
+
+    const at = size <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, le);
+    if (at + size > view.byteLength) continue;
+
+    entries.push({
+      tag,
+      type,
+      count: valueCount,
+      value: new Uint8Array(view.buffer, view.byteOffset + at, size).slice(),
+    });
+  }
+
+  return entries;
+};
+
+// First value of an unsigned integer entry, whichever width the file used
+const readUint = (entry: ExifEntry | undefined, le: boolean) => {
+  if (!entry || entry.count < 1) return null;
+  const view = new DataView(entry.value.buffer, entry.value.byteOffset, entry.value.byteLength);
+  if (entry.type === TYPE_BYTE) return view.getUint8(0);
+  if (entry.type === TYPE_SHORT) return view.getUint16(0, le);
+  if (entry.type === TYPE_LONG || entry.type === TYPE_IFD) return view.getUint32(0, le);
+  return null;
+};
+
+/**
+ * Parses the EXIF block of a JPEG.
+ * @returns null for non-JPEG data or JPEGs without EXIF.
+ */
+export const readExif = (buffer: ArrayBuffer): ExifData | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    // Start of scan: no more metadata segments follow
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return null;
+    const length = view.getUint16(offset + 2);
+
+    const isExif =
+      marker === 0xffe1 &&
+      offset + 4 + EXIF_HEADER.length <= view.byteLength &&
+      EXIF_HEADER.every((byte, i) => view.getUint8(offset + 4 + i) === byte);
+
+    if (isExif) {
+      const tiff = offset + 10;
+      // Truncated before the end of the TIFF header
+      if (tiff + 8 > view.byteLength) return null;
+      const le = view.getUint16(tiff) === 0x4949;
+      if (view.getUint16(tiff + 2, le) !== 42) return null;
+
+      const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, le), le);
+      const pointer = (tag: number) => readUint(ifd0.find((e) => e.tag === tag), le);
+      const exifOffset = pointer(TAG_EXIF_IFD);
+      const gpsOffset = pointer(TAG_GPS_IFD);
+      const orientation = readUint(ifd0.find((e) => e.tag === TAG_ORIENTATION), le);
+
+      return {
+        littleEndian: le,
+        orientation: orientation !== null && orientation >= 1 && orientation <= 8 ? orientation : 1,
+        ifd0: ifd0.filter((e) => e.tag !== TAG_EXIF_IFD && e.tag !== TAG_GPS_IFD),
+        exif: exifOffset === null ? [] : readIfd(view, tiff, exifOffset, le),
+        gps: gpsOffset === null ? [] : readIfd(view, tiff, gpsOffset, le),
+      };
+    }
+
+    offset += 2 + length;
+  }
+
+  return null;
+};
+
+/**
+ * Reads EXIF from the head of a blob without loading the whole file.
+ */
+export const readExifFromBlob = async (blob: Blob) =>
+  readExif(await blob.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+
+const ascii = (entries: ExifEntry[], tag: number) => {
+  const entry = entries.find((e) => e.tag === tag && e.type === 2);
+  if (!entry) return undefined;
+  return new TextDecoder().decode(entry.value).replace(/\0+$/, "").trim() || undefined;
+};
+
+/**
+ * Human-readable summary of what a photo's metadata reveals.
+ */
+export interface MetadataSummary {
+  camera?: string;
+  date?: string;
+  author?: string;
+  hasLocation: boolean;
+}
+
+export const summarizeExif = (data: ExifData): MetadataSummary => {
+  const make = ascii(data.ifd0, 0x010f);
+  const model = ascii(data.ifd0, 0x0110);
+  return {
+    camera: model && make && !model.startsWith(make) ? `${make} ${model}` : model ?? make,
+    date: ascii(data.exif, 0x9003) ?? ascii(data.ifd0, 0x0132),
+    author: ascii(data.ifd0, 0x013b) ?? ascii(data.ifd0, 0x8298),
+    hasLocation: data.gps.length > 0,
+  };
+};
+
+/**
+ * Builds a JPEG APP1 segment holding only the selected fields.
+ * Orientation is never copied: exported pixels are already upright.
+ * @returns null when none of the selected fields are present.
+ */
+export const buildExifSegment = (
+  data: ExifData,
+  fields: MetadataField[]
+): Uint8Array | null => {
+  const pick = (entries: ExifEntry[], ifd: "ifd0" | "exif") => {
+    const tags = new Set(
+      fields.flatMap((field) => (field === "location" ? [] : FIELD_TAGS[field][ifd]))
+    );
+    return entries.filter((e) => tags.has(e.tag));
+  };
+
+  const exif = pick(data.exif, "exif");
+  const gps = fields.includes("location") ? [...data.gps] : [];
+  const ifd0 = pick(data.ifd0, "ifd0");
+  if (!ifd0.length && !exif.length && !gps.length) return null;
+
+  const le = data.littleEndian;
+  const pointerEntry = (tag: number): ExifEntry => ({
+    tag,
+    type: TYPE_LONG,
+    count: 1,
+    value: new Uint8Array(4), // patched once offsets are known
+  });
+  if (exif.length) ifd0.push(pointerEntry(TAG_EXIF_IFD));
+  if (gps.length) ifd0.push(pointerEntry(TAG_GPS_IFD));
+
+  const ifds = [ifd0, exif, gps].filter((entries) => entries.length);
+  for (const entries of ifds) entries.sort((a, b) => a.tag - b.tag);
+
+  // Layout: TIFF header, every IFD back to back, then out-of-line values
+  const ifdSize = (entries: ExifEntry[]) => 2 + entries.length * 12 + 4;
+  const ifdOffsets: number[] = [];
+  let cursor = 8;
+  for (const entries of ifds) {
+    ifdOffsets.push(cursor);
+    cursor += ifdSize(entries);
+  }
+  let dataSize = 0;
+  for (const entries of ifds) {
+    for (const e of entries) {
+      if (e.value.length > 4) dataSize += e.value.length + (e.value.length % 2);
+    }
+  }
+
+  const tiff = new Uint8Array(cursor + dataSize);
+  const view = new DataView(tiff.buffer);
+  view.setUint16(0, le ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, le);
+  view.setUint32(4, 8, le);
+
+  const patchPointer = (tag: number, target: ExifEntry[]) => {
+    const entry = ifd0.find((e) => e.tag === tag)!;
+    new DataView(entry.value.buffer).setUint32(0, ifdOffsets[ifds.indexOf(target)], le);
+  };
+  if (exif.length) patchPointer(TAG_EXIF_IFD, exif);
+  if (gps.length) patchPointer(TAG_GPS_IFD, gps);
+
+  let dataCursor = cursor;
+  ifds.forEach((entries, i) => {
+    let at = ifdOffsets[i];
+    view.setUint16(at, entries.length, le);
+    at += 2;
+    for (const e of entries) {
+      view.setUint16(at, e.tag, le);
+      view.setUint16(at + 2, e.type, le);
+      view.setUint32(at + 4, e.count, le);
+      if (e.value.length <= 4) {
+        tiff.set(e.value, at + 8);
+      } else {
+        view.setUint32(at + 8, dataCursor, le);
+        tiff.set(e.value, dataCursor);
+        dataCursor += e.value.length + (e.value.length % 2);
+      }
+      at += 12;
+    }
+    view.setUint32(at, 0, le); // no next IFD
+  });
+
+  const length = 2 + EXIF_HEADER.length + tiff.length;
+  if (length > 0xffff) return null;
+
+  const segment = new Uint8Array(2 + length);
+  const segmentView = new DataView(segment.buffer);
+  segmentView.setUint16(0, 0xffe1);
+  segmentView.setUint16(2, length);
+  segment.set(EXIF_HEADER, 4);
+  segment.set(tiff, 4 + EXIF_HEADER.length);
+  return segment;
+};
+
+/**
+ * Inserts an APP1 segment into an encoded JPEG, after the JFIF header if
+ * there is one.
+ */
+export const insertExifSegment = (jpeg: Uint8Array, segment: Uint8Array) => {
+  const view = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength);
+  let at = 2;
+  if (view.getUint16(2) === 0xffe0) at += 2 + view.getUint16(4);
+
+  const out = new Uint8Array(jpeg.length + segment.length);
+  out.set(jpeg.subarray(0, at));
+  out.set(segment, at);
+  out.set(jpeg.subarray(at), at + segment.length);
+  return out;
+};
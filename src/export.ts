@@ -0,0 +1,113 @@
+import type { MetadataField } from "./exif";
+
+export type ExportFormat = "png" | "jpeg" | "webp";
+
+/**
+ * Controls how the processed image is encoded.
+ */
+export interface ExportOptions {
+  format: ExportFormat;
+  /** 0-1, ignored for PNG */
+  quality: number;
+  /** Longest edge in pixels; null keeps the original size */
+  maxDimension: number | null;
+  /** File name without extension, see {@link buildFileName} for tokens */
+  fileNameTemplate: string;
+  /** EXIF fields copied from the source into JPEG exports; empty strips all */
+  metadata: MetadataField[];
+  /** Keep Display P3 photos in P3 rather than converting them to sRGB */
+  wideGamut: boolean;
+}
+
+/**
+ * The parts of {@link ExportOptions} that affect the encoded pixels.
+ */
+export type EncodeOptions = Omit<ExportOptions, "fileNameTemplate">;
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: "jpeg",
+  quality: 0.9,
+  maxDimension: null,
+  fileNameTemplate: "{name}-duotone",
+  metadata: [],
+  wideGamut: true,
+};
+
+export const EXPORT_FORMATS: {
+  value: ExportFormat;
+  label: string;
+  mime: string;
+  ext: string;
+  /** Whether the format keeps transparency */
+  alpha: boolean;
+}[] = [
+  { value: "jpeg", label: "JPEG", mime: "image/jpeg", ext: "jpg", alpha: false },
+  { value: "png", label: "PNG", mime: "image/png", ext: "png", alpha: true },
+  { value: "webp", label: "WebP", mime: "image/webp", ext: "webp", alpha: true },
+];
+
+/**
+ * Output formats for animations and clips, picked by the input rather than
+ * the export options.
+ */
+export type AnimationFormat = "gif" | "webm" | "mp4";
+
+export const ANIMATION_FORMATS: { value: AnimationFormat; mime: string; ext: string }[] = [
+  { value: "gif", mime: "image/gif", ext: "gif" },
+  { value: "webm", mime: "video/webm", ext: "webm" },
+  { value: "mp4", mime: "video/mp4", ext: "mp4" },
+];
+
+export const MAX_DIMENSION_PRESETS = [null, 4096, 2048, 1080] as const;
+
+export const formatInfo = (format: ExportFormat) =>
+  EXPORT_FORMATS.find((f) => f.value === format) ?? EXPORT_FORMATS[0];
+
+/**
+ * Scales `width` x `height` down so the longest edge fits `maxDimension`.
+ * Images already within the limit are returned unchanged.
+ */
+export const fitDimensions = (
+  width: number,
+  height: number,
+  maxDimension: number | null
+) => {
+  const longest = Math.max(width, height);
+  if (!maxDimension || longest <= maxDimension) return { width, height };
+  const scale = maxDimension / longest;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+// Characters that are invalid in file names on at least one common OS
+const UNSAFE_CHARS = /[\\/:*?"<>|]+/g;
+
+/**
+ * Expands a file name template. Supported tokens:
+ * `{name}` original name without extension, `{mode}` effect mode,
+ * `{format}` export format, `{date}` YYYY-MM-DD.
+ */
+export const buildFileName = (
+  template: string,
+  values: { originalName: string; mode: string; format: ExportFormat | AnimationFormat }
+) => {
+  const name = values.originalName.replace(/\.[^.]+$/, "") || "photo";
+  const tokens: Record<string, string> = {
+    name,
+    mode: values.mode,
+    format: values.format,
+    date: new Date().toISOString().slice(0, 10),
+  };
+
+  const base = template
+    .replace(/\{(\w+)\}/g, (match, token: string) => tokens[token] ?? match)
+    .replace(UNSAFE_CHARS, "_")
+    .trim();
+
+  const ext =
+    ANIMATION_FORMATS.find((f) => f.value === values.format)?.ext ??
+    formatInfo(values.format as ExportFormat).ext;
+  return `${base || name}.${ext}`;
+};
@@ -0,0 +1,75 @@
+import { applyEffectToPixels, type EffectSettings } from "./lib";
+import { fitDimensions } from "./export";
+import { createDuotoneRenderer } from "./gl/duotone-renderer";
+
+/** Draws video frames with the effect applied */
+export interface FramePainter {
+  /** Paints the video's current frame, resizing the canvas to fit it */
+  draw: (video: HTMLVideoElement, settings: EffectSettings) => void;
+  dispose: () => void;
+}
+
+interface FramePainterOptions {
+  /** Paints with WebGL rather than on the CPU */
+  gpu: boolean;
+  /** Longest edge of the painted frame; null keeps the video's size */
+  maxDimension: number | null;
+}
+
+const fitVideo = (video: HTMLVideoElement, maxDimension: number | null) =>
+  fitDimensions(video.videoWidth, video.videoHeight, maxDimension);
+
+const sizeCanvas = (canvas: HTMLCanvasElement, width: number, height: number) => {
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+};
+
+/**
+ * Paints video frames onto `canvas` with the effect, on the GPU when asked
+ * and available, otherwise with the CPU path. A canvas keeps the first
+ * context type it hands out, so after a failed GPU attempt retry the CPU
+ * path on a fresh canvas.
+ * @returns The painter, or null if the canvas has no usable context.
+ */
+export const createFramePainter = (
+  canvas: HTMLCanvasElement,
+  { gpu, maxDimension }: FramePainterOptions
+): FramePainter | null => {
+  if (gpu) {
+    const renderer = createDuotoneRenderer(canvas);
+    if (!renderer) return null;
+    // Large frames are scaled down on a 2D canvas before the upload
+    const scratch = document.createElement("canvas");
+    const scratchCtx = scratch.getContext("2d");
+    return {
+      draw: (video, settings) => {
+        const { width, height } = fitVideo(video, maxDimension);
+        if (width === video.videoWidth || !scratchCtx) {
+          renderer.setImage(video);
+        } else {
+          sizeCanvas(scratch, width, height);
+          scratchCtx.drawImage(video, 0, 0, width, height);
+          renderer.setImage(scratch);
+        }
+        renderer.render(settings);
+      },
+      dispose: renderer.dispose,
+    };
+  }
+
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  return {
+    draw: (video, settings) => {
+      const { width, height } = fitVideo(video, maxDimension);
+      sizeCanvas(canvas, width, height);
+      ctx.drawImage(video, 0, 0, width, height);
+      const pixels = ctx.getImageData(0, 0, width, height);
+      applyEffectToPixels(pixels.data, settings);
+      ctx.putImageData(pixels, 0, 0);
+    },
+    dispose: () => {},
+  };
+};
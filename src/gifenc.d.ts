@@ -0,0 +1,36 @@
+// Type declarations for the parts of gifenc this app uses; the package
+// ships none
+declare module "gifenc" {
+  export type Palette = number[][];
+
+  export interface FrameOptions {
+    palette?: Palette;
+    /** Frame duration in milliseconds */
+    delay?: number;
+    /** -1 plays once, 0 loops forever, n loops n times */
+    repeat?: number;
+    transparent?: boolean;
+    transparentIndex?: number;
+    dispose?: number;
+  }
+
+  export interface Encoder {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: FrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array;
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean; initialCapacity?: number }): Encoder;
+
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: { format?: "rgb565" | "rgb444" | "rgba4444"; oneBitAlpha?: boolean | number }
+  ): Palette;
+
+  export function applyPalette(
+    rgba: Uint8Array | Uint8ClampedArray,
+    palette: Palette,
+    format?: "rgb565" | "rgb444" | "rgba4444"
+  ): Uint8Array;
+}
@@ -0,0 +1,264 @@
+import {
+  LUMA_WEIGHTS,
+  buildEffectLut,
+  type EffectSettings,
+  type WorkingColorSpace,
+} from "../lib";
+
+/**
+ * Renders the effect with WebGL for the live preview. The shader only works
+ * out each pixel's brightness level; the colors come from the same lookup
+ * table as the CPU path, so both agree to within one brightness level
+ * (float rounding at exact .5 boundaries).
+ */
+export interface DuotoneRenderer {
+  /**
+   * Uploads a new source image, or the current frame of a playing video,
+   * and resizes the canvas to match it
+   */
+  setImage: (image: ImageBitmap | HTMLVideoElement | HTMLCanvasElement) => void;
+  /**
+   * Works in `colorSpace` from the next `setImage` on, where the browser
+   * supports wide-gamut WebGL; otherwise stays in sRGB
+   */
+  setColorSpace: (colorSpace: WorkingColorSpace) => void;
+  /**
+   * Sets per-pixel effect coverage (0-255) at the image's size, as made by
+   * `renderMask`; null applies the effect everywhere
+   */
+  setMask: (coverage: Uint8ClampedArray | null) => void;
+  /** Draws the current image with the given settings */
+  render: (settings: EffectSettings) => void;
+  dispose: () => void;
+  /** Largest texture edge this GPU accepts */
+  maxTextureSize: number;
+}
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+  v_uv = vec2(a_position.x, -a_position.y) * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `
+precision highp float;
+uniform sampler2D u_image;
+uniform sampler2D u_lut;
+uniform sampler2D u_mask;
+uniform bool u_masked;
+uniform vec3 u_weights;
+uniform bool u_linear;
+varying vec2 v_uv;
+
+float toLinear(float c) {
+  return c <= 0.04045 ? c / 12.92 : pow((c + 0.055) / 1.055, 2.4);
+}
+
+float toSrgb(float c) {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * pow(c, 1.0 / 2.4) - 0.055;
+}
+
+void main() {
+  vec4 pixel = texture2D(u_image, v_uv);
+  float lum;
+  if (u_linear) {
+    vec3 linear = vec3(toLinear(pixel.r), toLinear(pixel.g), toLinear(pixel.b));
+    lum = toSrgb(dot(linear, vec3(0.2126, 0.7152, 0.0722)));
+  } else {
+    lum = dot(pixel.rgb, u_weights);
+  }
+  float level = floor(clamp(lum, 0.0, 1.0) * 255.0 + 0.5);
+  vec3 color = texture2D(u_lut, vec2((level + 0.5) / 256.0, 0.5)).rgb;
+  if (u_masked) {
+    color = mix(pixel.rgb, color, texture2D(u_mask, v_uv).a);
+  }
+  gl_FragColor = vec4(color, pixel.a);
+}
+`;
+
+const compile = (gl: WebGLRenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error("Could not create shader");
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(gl.getShaderInfoLog(shader) ?? "Shader compile failed");
+  }
+  return shader;
+};
+
+const createTexture = (gl: WebGLRenderingContext) => {
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  return texture;
+};
+
+const getContext = (canvas: HTMLCanvasElement) =>
+  canvas.getContext("webgl", {
+    premultipliedAlpha: false,
+    preserveDrawingBuffer: true,
+  });
+
+/**
+ * Whether WebGL is usable here, probed on a throwaway canvas.
+ */
+export const supportsGpuPreview = () => {
+  try {
+    const gl = getContext(document.createElement("canvas"));
+    // Browsers cap live contexts, so release the probe right away
+    gl?.getExtension("WEBGL_lose_context")?.loseContext();
+    return !!gl;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Sets up a WebGL renderer on `canvas`.
+ * @returns null when WebGL is unavailable or the shaders fail to build.
+ */
+export const createDuotoneRenderer = (
+  canvas: HTMLCanvasElement
+): DuotoneRenderer | null => {
+  const gl = getContext(canvas);
+  if (!gl) return null;
+
+  let program: WebGLProgram | null;
+  try {
+    program = gl.createProgram();
+    if (!program) return null;
+    gl.attachShader(program, compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(gl.getProgramInfoLog(program) ?? "Program link failed");
+    }
+  } catch (error) {
+    console.error("WebGL preview unavailable:", error);
+    return null;
+  }
+  gl.useProgram(program);
+
+  // Full-canvas quad as a triangle strip
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(
+    gl.ARRAY_BUFFER,
+    new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
+    gl.STATIC_DRAW
+  );
+  const position = gl.getAttribLocation(program, "a_position");
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  // Keep uploaded bytes exactly as decoded so they match the CPU path
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+  gl.pixelStorei(gl.UNPACK_COLORSPACE_CONVERSION_WEBGL, gl.NONE);
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+
+  gl.activeTexture(gl.TEXTURE0);
+  const imageTexture = createTexture(gl);
+  gl.activeTexture(gl.TEXTURE1);
+  const lutTexture = createTexture(gl);
+  gl.activeTexture(gl.TEXTURE2);
+  const maskTexture = createTexture(gl);
+
+  gl.uniform1i(gl.getUniformLocation(program, "u_image"), 0);
+  gl.uniform1i(gl.getUniformLocation(program, "u_lut"), 1);
+  gl.uniform1i(gl.getUniformLocation(program, "u_mask"), 2);
+  const maskedLocation = gl.getUniformLocation(program, "u_masked");
+  const weightsLocation = gl.getUniformLocation(program, "u_weights");
+  const linearLocation = gl.getUniformLocation(program, "u_linear");
+
+  let hasImage = false;
+  let colorSpace: WorkingColorSpace = "srgb";
+
+  return {
+    maxTextureSize: gl.getParameter(gl.MAX_TEXTURE_SIZE),
+
+    setColorSpace: (space) => {
+      if (!("drawingBufferColorSpace" in gl)) return;
+      gl.drawingBufferColorSpace = space;
+      // Texture uploads convert into this space
+      gl.unpackColorSpace = space;
+      colorSpace = space;
+    },
+
+    setImage: (image) => {
+      const isVideo = image instanceof HTMLVideoElement;
+      const width = isVideo ? image.videoWidth : image.width;
+      const height = isVideo ? image.videoHeight : image.height;
+      // Resizing reallocates the drawing buffer, so skip it for same-size frames
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+        gl.viewport(0, 0, width, height);
+      }
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, imageTexture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+      hasImage = true;
+    },
+
+    setMask: (coverage) => {
+      gl.uniform1i(maskedLocation, coverage ? 1 : 0);
+      if (!coverage) return;
+      gl.activeTexture(gl.TEXTURE2);
+      gl.bindTexture(gl.TEXTURE_2D, maskTexture);
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.ALPHA,
+        canvas.width,
+        canvas.height,
+        0,
+        gl.ALPHA,
+        gl.UNSIGNED_BYTE,
+        new Uint8Array(coverage.buffer, coverage.byteOffset, coverage.length)
+      );
+    },
+
+    render: (settings) => {
+      if (!hasImage) return;
+      const { luminance } = settings.tone;
+      gl.uniform1i(linearLocation, luminance === "linear" ? 1 : 0);
+      gl.uniform3fv(
+        weightsLocation,
+        luminance === "linear" ? LUMA_WEIGHTS.rec709 : LUMA_WEIGHTS[luminance]
+      );
+
+      const lut = buildEffectLut(settings, colorSpace);
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, lutTexture);
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGB,
+        256,
+        1,
+        0,
+        gl.RGB,
+        gl.UNSIGNED_BYTE,
+        new Uint8Array(lut.buffer)
+      );
+
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    },
+
+    dispose: () => {
+      gl.deleteTexture(imageTexture);
+      gl.deleteTexture(lutTexture);
+      gl.deleteTexture(maskTexture);
+      gl.deleteBuffer(buffer);
+      // The context itself stays alive: a remount may reuse the same canvas
+      gl.deleteProgram(program);
+    },
+  };
+};
@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { EffectSettings } from "../lib";
+import { buildFileName, type ExportOptions } from "../export";
+import { isAbortError, processImageInWorker } from "../process-image";
+
+export type BatchStatus = "queued" | "processing" | "done" | "error";
+
+export interface BatchItem {
+  id: number;
+  file: File;
+  status: BatchStatus;
+  progress: number;
+  /** Object URL of the original, used as the thumbnail until the result is ready */
+  sourceUrl: string;
+  result: Blob | null;
+  resultUrl: string | null;
+  /** Download name built from the export file name template */
+  resultName: string | null;
+  error: string | null;
+  /** Set when the image had to be scaled down to fit this device */
+  warning: string | null;
+}
+
+interface PendingJob {
+  id: number;
+  file: File;
+  settings: EffectSettings;
+  exportOptions: ExportOptions;
+}
+
+/**
+ * Processes files one at a time through the worker pipeline. Each file is
+ * rendered with the settings and export options active when it was queued.
+ */
+export function useBatchQueue() {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const pendingRef = useRef<PendingJob[]>([]);
+  const runningRef = useRef(false);
+  const jobRef = useRef<AbortController | null>(null);
+  const nextIdRef = useRef(0);
+  // Mirrors `items` so cleanup can revoke URLs without stale closures
+  const itemsRef = useRef<BatchItem[]>([]);
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  const updateItem = useCallback((id: number, patch: Partial<BatchItem>) => {
+    setItems((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...patch } : item))
+    );
+  }, []);
+
+  const drain = useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+
+    let job: PendingJob | undefined;
+    while ((job = pendingRef.current.shift())) {
+      const { id, file, settings, exportOptions } = job;
+      const controller = new AbortController();
+      jobRef.current = controller;
+      updateItem(id, { status: "processing", progress: 0, error: null, warning: null });
+
+      try {
+        const result = await processImageInWorker(file, settings, {
+          signal: controller.signal,
+          encodeOptions: exportOptions,
+          onProgress: (progress) => updateItem(id, { progress }),
+          onWarning: (warning) => updateItem(id, { warning }),
+        });
+        // Finished just as a rerun started: the result is already stale
+        if (controller.signal.aborted) continue;
+        const resultUrl = URL.createObjectURL(result);
+        const resultName = buildFileName(exportOptions.fileNameTemplate, {
+          originalName: file.name,
+          mode: settings.mode,
+          format: exportOptions.format,
+        });
+        setItems((prev) =>
+          prev.map((item) => {
+            if (item.id !== id) return item;
+            if (item.resultUrl) URL.revokeObjectURL(item.resultUrl);
+            return {
+              ...item,
+              status: "done",
+              progress: 1,
+              result,
+              resultUrl,
+              resultName,
+            };
+          })
+        );
+      } catch (error) {
+        // Aborted by clear/rerun: carry on with whatever they queued instead
+        if (isAbortError(error)) continue;
+        console.error(`Error processing ${file.name}:`, error);
+        updateItem(id, {
+          status: "error",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    jobRef.current = null;
+    runningRef.current = false;
+  }, [updateItem]);
+
+  const addFiles = useCallback(
+    (files: File[], settings: EffectSettings, exportOptions: ExportOptions) => {
+      const added = files.map<BatchItem>((file) => ({
+        id: nextIdRef.current++,
+        file,
+        status: "queued",
+        progress: 0,
+        sourceUrl: URL.createObjectURL(file),
+        result: null,
+        resultUrl: null,
+        resultName: null,
+        error: null,
+        warning: null,
+      }));
+
+      pendingRef.current.push(
+        ...added.map(({ id, file }) => ({ id, file, settings, exportOptions }))
+      );
+      setItems((prev) => [...prev, ...added]);
+      drain();
+    },
+    [drain]
+  );
+
+  // Re-queues every item with new settings, e.g. after the palette changed.
+  // Old results are dropped so "Download all" never mixes two looks.
+  const rerun = useCallback(
+    (settings: EffectSettings, exportOptions: ExportOptions) => {
+      jobRef.current?.abort();
+      pendingRef.current = itemsRef.current.map(({ id, file }) => ({
+        id,
+        file,
+        settings,
+        exportOptions,
+      }));
+      setItems((prev) =>
+        prev.map((item) => {
+          if (item.resultUrl) URL.revokeObjectURL(item.resultUrl);
+          return {
+            ...item,
+            status: "queued",
+            progress: 0,
+            result: null,
+            resultUrl: null,
+            resultName: null,
+          };
+        })
+      );
+      drain();
+    },
+    [drain]
+  );
+
+  const clear = useCallback(() => {
+    jobRef.current?.abort();
+    pendingRef.current = [];
+    for (const item of itemsRef.current) {
+      URL.revokeObjectURL(item.sourceUrl);
+      if (item.resultUrl) URL.revokeObjectURL(item.resultUrl);
+    }
+    itemsRef.current = [];
+    setItems([]);
+  }, []);
+
+  // Abort the running job and release every object URL on unmount
+  useEffect(() => clear, [clear]);
+
+  return useMemo(() => ({ items, addFiles, rerun, clear }), [items, addFiles, rerun, clear]);
+}
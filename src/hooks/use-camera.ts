@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+
+export type CameraFacing = "user" | "environment";
+
+/**
+ * Whether this browser can stream from a camera. `getUserMedia` only exists
+ * in secure contexts, so plain-HTTP hosting reports false too.
+ */
+export const canUseCamera = () =>
+  typeof navigator !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+
+const cameraErrorMessage = (error: unknown) => {
+  const name = error instanceof DOMException ? error.name : "";
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return "Camera access was blocked. Allow it in your browser's site settings and try again.";
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return "No camera was found on this device.";
+    case "NotReadableError":
+      return "The camera is in use by another app.";
+    default:
+      return "The camera couldn't be started.";
+  }
+};
+
+const stopStream = (stream: MediaStream) =>
+  stream.getTracks().forEach((track) => track.stop());
+
+/**
+ * Streams video from the camera facing `facing`. Switching sides or
+ * unmounting stops the old stream so the camera light goes off.
+ */
+export function useCamera(facing: CameraFacing) {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [canSwitch, setCanSwitch] = useState(false);
+
+  useEffect(() => {
+    if (!canUseCamera()) {
+      setError("This browser can't use the camera. It needs a secure (https) page.");
+      return;
+    }
+    let cancelled = false;
+    let current: MediaStream | null = null;
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: {
+          facingMode: { ideal: facing },
+          width: { ideal: 1920 },
+          height: { ideal: 1080 },
+        },
+        audio: false,
+      })
+      .then(async (started) => {
+        if (cancelled) {
+          stopStream(started);
+          return;
+        }
+        current = started;
+        setStream(started);
+        setError(null);
+        // The full device list is only visible once permission is granted
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) {
+          setCanSwitch(devices.filter((d) => d.kind === "videoinput").length > 1);
+        }
+      })
+      .catch((e) => {
+        console.error("Error starting camera:", e);
+        if (!cancelled) setError(cameraErrorMessage(e));
+      });
+
+    return () => {
+      cancelled = true;
+      if (current) stopStream(current);
+      setStream(null);
+    };
+  }, [facing]);
+
+  return { stream, error, canSwitch };
+}
@@ -0,0 +1,43 @@
+import { useCallback, useState, type SetStateAction } from "react";
+import {
+  createHistory,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+  type History,
+} from "../lib";
+
+/**
+ * State with undo/redo. `set` works like a `useState` setter and records
+ * each change; rapid changes such as slider drags collapse into one step.
+ */
+export function useHistory<T>(initial: T | (() => T)) {
+  const [history, setHistory] = useState<History<T>>(() =>
+    createHistory(typeof initial === "function" ? (initial as () => T)() : initial)
+  );
+
+  const set = useCallback((action: SetStateAction<T>) => {
+    const now = Date.now();
+    setHistory((prev) =>
+      pushHistory(
+        prev,
+        typeof action === "function"
+          ? (action as (prev: T) => T)(prev.present)
+          : action,
+        now
+      )
+    );
+  }, []);
+
+  const undo = useCallback(() => setHistory(undoHistory), []);
+  const redo = useCallback(() => setHistory(redoHistory), []);
+
+  return {
+    value: history.present,
+    set,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
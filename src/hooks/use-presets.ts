@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  PresetError,
+  parsePreset,
+  parsePresetFile,
+  serializePresets,
+  type EffectSettings,
+  type Preset,
+} from "../lib";
+
+const STORAGE_KEY = "brave-pink:presets";
+
+// Corrupt or hand-edited entries are skipped rather than losing the rest
+const loadPresets = (): Preset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((entry) => {
+      try {
+        return [parsePreset(entry)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * User-created presets, persisted in localStorage. Saving under an existing
+ * name replaces that preset.
+ */
+export function usePresets() {
+  const [presets, setPresets] = useState<Preset[]>(loadPresets);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    } catch {
+      // Storage can be full or disabled (private mode); presets stay in memory
+    }
+  }, [presets]);
+
+  // Keep other tabs in sync
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) setPresets(loadPresets());
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const mergePresets = useCallback((incoming: Preset[]) => {
+    setPresets((prev) => [
+      ...prev.filter((p) => !incoming.some((i) => i.name === p.name)),
+      ...incoming,
+    ]);
+  }, []);
+
+  const savePreset = useCallback(
+    (name: string, settings: EffectSettings) => {
+      const trimmed = name.trim();
+      if (!trimmed) throw new PresetError("Preset needs a name");
+      mergePresets([{ name: trimmed, settings }]);
+    },
+    [mergePresets]
+  );
+
+  const removePreset = useCallback((name: string) => {
+    setPresets((prev) => prev.filter((p) => p.name !== name));
+  }, []);
+
+  /**
+   * Adds every preset in a JSON file.
+   * @returns The imported presets.
+   * @throws PresetError when the file isn't a valid preset file.
+   */
+  const importPresets = useCallback(
+    async (file: Blob) => {
+      const imported = parsePresetFile(await file.text());
+      mergePresets(imported);
+      return imported;
+    },
+    [mergePresets]
+  );
+
+  const exportPresets = useCallback(
+    () => new Blob([serializePresets(presets)], { type: "application/json" }),
+    [presets]
+  );
+
+  return { presets, savePreset, removePreset, importPresets, exportPresets };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { frameDelay, isAnimatedImage } from "./animation";
+
+const flatten = (parts: (string | number[])[]) =>
+  parts.flatMap((part) =>
+    typeof part === "string" ? Array.from(part, (c) => c.charCodeAt(0)) : part
+  );
+
+const bytes = (...parts: (string | number[])[]) => Uint8Array.from(flatten(parts));
+
+const gif = (frames: number) =>
+  bytes(
+    "GIF89a",
+    [1, 0, 1, 0, 0x80, 0, 0],
+    // Two-color global table
+    [0, 0, 0, 255, 255, 255],
+    ...Array.from({ length: frames }, () => [
+      // Graphic control extension
+      0x21, 0xf9, 4, 0, 10, 0, 0, 0,
+      // Image descriptor, LZW code size, one data sub-block, terminator
+      0x2c, 0, 0, 0, 0, 1, 0, 1, 0, 0,
+      2, 2, 0x4c, 0x01, 0,
+    ]),
+    [0x3b]
+  );
+
+const pngChunk = (type: string, length: number) =>
+  flatten([[0, 0, 0, length], type, new Array(length + 4).fill(0)]);
+
+const png = (animated: boolean) =>
+  bytes(
+    [0x89],
+    "PNG\r\n\x1a\n",
+    pngChunk("IHDR", 13),
+    ...(animated ? [pngChunk("acTL", 8)] : []),
+    pngChunk("IDAT", 2)
+  );
+
+const webp = (flags: number) =>
+  bytes("RIFF", [30, 0, 0, 0], "WEBPVP8X", [10, 0, 0, 0, flags], new Array(9).fill(0));
+
+describe("isAnimatedImage", () => {
+  it("counts GIF frames", () => {
+    expect(isAnimatedImage(gif(1))).toBe(false);
+    expect(isAnimatedImage(gif(2))).toBe(true);
+  });
+
+  it("finds the APNG animation chunk", () => {
+    expect(isAnimatedImage(png(false))).toBe(false);
+    expect(isAnimatedImage(png(true))).toBe(true);
+  });
+
+  it("reads the WebP animation flag", () => {
+    expect(isAnimatedImage(webp(0x00))).toBe(false);
+    expect(isAnimatedImage(webp(0x02))).toBe(true);
+    expect(isAnimatedImage(bytes("RIFF", [30, 0, 0, 0], "WEBPVP8 "))).toBe(false);
+  });
+
+  it("rejects other formats", () => {
+    expect(isAnimatedImage(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBe(false);
+    expect(isAnimatedImage(new Uint8Array())).toBe(false);
+  });
+});
+
+describe("frameDelay", () => {
+  it("converts microseconds to milliseconds", () => {
+    expect(frameDelay(40_000)).toBe(40);
+  });
+
+  it("falls back for missing or tiny durations", () => {
+    expect(frameDelay(null)).toBe(100);
+    expect(frameDelay(0)).toBe(100);
+    expect(frameDelay(5_000)).toBe(20);
+  });
+});
@@ -0,0 +1,85 @@
+/** Animations are cut off after this many frames */
+export const MAX_ANIMATION_FRAMES = 300;
+
+/** Clips are cut off after this many seconds */
+export const MAX_CLIP_SECONDS = 15;
+
+/** Longest edge of converted animations and clips */
+export const ANIMATION_MAX_DIMENSION = 720;
+
+// Browsers stretch GIF delays under 20 ms to 100 ms, so don't go below it
+const MIN_FRAME_DELAY_MS = 20;
+const DEFAULT_FRAME_DELAY_MS = 100;
+
+/**
+ * Display time of a decoded frame, in milliseconds.
+ * @param durationMicros - Frame duration as reported by the decoder, if any.
+ */
+export const frameDelay = (durationMicros: number | null | undefined) =>
+  durationMicros
+    ? Math.max(MIN_FRAME_DELAY_MS, Math.round(durationMicros / 1000))
+    : DEFAULT_FRAME_DELAY_MS;
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const readUint32BE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const readUint32LE = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+// Skips GIF data sub-blocks (length byte + data, ending with a zero length)
+const skipSubBlocks = (bytes: Uint8Array, offset: number) => {
+  while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1;
+  return offset + 1;
+};
+
+const colorTableSize = (flags: number) => (flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0);
+
+const isAnimatedGif = (bytes: Uint8Array) => {
+  let offset = 13 + colorTableSize(bytes[10]);
+  let frames = 0;
+  while (offset < bytes.length) {
+    const block = bytes[offset];
+    if (block === 0x21) {
+      // Extension: label, then sub-blocks
+      offset = skipSubBlocks(bytes, offset + 2);
+    } else if (block === 0x2c) {
+      if (++frames > 1) return true;
+      offset += 10 + colorTableSize(bytes[offset + 9]);
+      // LZW minimum code size, then the image data
+      offset = skipSubBlocks(bytes, offset + 1);
+    } else {
+      return false;
+    }
+  }
+  return false;
+};
+
+// APNG declares its animation in an acTL chunk ahead of the image data
+const isAnimatedPng = (bytes: Uint8Array) => {
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === "acTL") return true;
+    if (type === "IDAT" || type === "IEND") return false;
+    offset += 12 + readUint32BE(bytes, offset);
+  }
+  return false;
+};
+
+// Extended WebP files flag animation in the VP8X header
+const isAnimatedWebp = (bytes: Uint8Array) =>
+  ascii(bytes, 12, 4) === "VP8X" && readUint32LE(bytes, 16) >= 10 && (bytes[20] & 0x02) !== 0;
+
+/**
+ * Whether the start of an image file holds more than one frame. GIFs need
+ * the whole file to tell; PNG and WebP only the first few hundred bytes.
+ */
+export const isAnimatedImage = (bytes: Uint8Array) => {
+  if (ascii(bytes, 0, 4) === "GIF8") return isAnimatedGif(bytes);
+  if (ascii(bytes, 1, 3) === "PNG") return isAnimatedPng(bytes);
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") return isAnimatedWebp(bytes);
+  return false;
+};
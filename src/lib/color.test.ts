@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { isValidHex, parseHex, toHex } from "./color";
+
+describe("parseHex", () => {
+  it("parses 6-digit colors with or without #", () => {
+    expect(parseHex("#f99fd2")).toEqual({ r: 249, g: 159, b: 210 });
+    expect(parseHex("165027")).toEqual({ r: 22, g: 80, b: 39 });
+  });
+
+  it("expands 3-digit shorthand", () => {
+    expect(parseHex("#0af")).toEqual({ r: 0, g: 170, b: 255 });
+  });
+
+  it("is case-insensitive and ignores surrounding whitespace", () => {
+    expect(parseHex("  #F99FD2 ")).toEqual(parseHex("#f99fd2"));
+  });
+
+  it.each(["", "#", "#12", "#1234", "#12345g", "red", "#1234567"])(
+    "rejects %j",
+    (hex) => {
+      expect(isValidHex(hex)).toBe(false);
+      expect(() => parseHex(hex)).toThrow(RangeError);
+    }
+  );
+});
+
+describe("toHex", () => {
+  it("formats lowercase #rrggbb", () => {
+    expect(toHex({ r: 249, g: 159, b: 210 })).toBe("#f99fd2");
+  });
+
+  it("rounds and clamps out-of-range channels", () => {
+    expect(toHex({ r: -4, g: 127.6, b: 300 })).toBe("#0080ff");
+  });
+
+  it("round-trips with parseHex", () => {
+    expect(toHex(parseHex("#0B3318"))).toBe("#0b3318");
+  });
+});
@@ -0,0 +1,44 @@
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// "#rgb" or "#rrggbb", the leading "#" optional
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const isValidHex = (hex: string) => HEX_PATTERN.test(hex.trim());
+
+/**
+ * Parses a CSS-style hex color.
+ * @throws RangeError when `hex` isn't a 3- or 6-digit hex color.
+ */
+export const parseHex = (hex: string): Rgb => {
+  const match = HEX_PATTERN.exec(hex.trim());
+  if (!match) throw new RangeError(`Invalid hex color: "${hex}"`);
+
+  let digits = match[1];
+  if (digits.length === 3) {
+    digits = digits
+      .split("")
+      .map((digit) => digit + digit)
+      .join("");
+  }
+
+  return {
+    r: parseInt(digits.substring(0, 2), 16),
+    g: parseInt(digits.substring(2, 4), 16),
+    b: parseInt(digits.substring(4, 6), 16),
+  };
+};
+
+const channelToHex = (value: number) =>
+  Math.round(Math.min(255, Math.max(0, value)))
+    .toString(16)
+    .padStart(2, "0");
+
+/**
+ * Formats a color as lowercase "#rrggbb", clamping each channel to 0-255.
+ */
+export const toHex = ({ r, g, b }: Rgb) =>
+  `#${channelToHex(r)}${channelToHex(g)}${channelToHex(b)}`;
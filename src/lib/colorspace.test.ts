@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  fromMixingSpace,
+  oklabToRgb,
+  rgbToOklab,
+  srgbToDisplayP3,
+  toMixingSpace,
+  type ColorInterpolation,
+} from "./colorspace";
+
+const INTERPOLATIONS: ColorInterpolation[] = ["srgb", "linear", "oklab"];
+
+describe("OKLab", () => {
+  it("maps white to full lightness without chroma", () => {
+    const [L, a, b] = rgbToOklab({ r: 255, g: 255, b: 255 });
+    expect(L).toBeCloseTo(1, 4);
+    expect(a).toBeCloseTo(0, 4);
+    expect(b).toBeCloseTo(0, 4);
+  });
+
+  it("round-trips colors", () => {
+    const pink = { r: 249, g: 159, b: 210 };
+    const back = oklabToRgb(rgbToOklab(pink));
+    expect(back.r).toBeCloseTo(pink.r, 3);
+    expect(back.g).toBeCloseTo(pink.g, 3);
+    expect(back.b).toBeCloseTo(pink.b, 3);
+  });
+});
+
+describe("mixing spaces", () => {
+  it.each(INTERPOLATIONS)("round-trips through %s", (interpolation) => {
+    const green = { r: 22, g: 80, b: 39 };
+    const back = fromMixingSpace(toMixingSpace(green, interpolation), interpolation);
+    expect(back.r).toBeCloseTo(green.r, 3);
+    expect(back.g).toBeCloseTo(green.g, 3);
+    expect(back.b).toBeCloseTo(green.b, 3);
+  });
+
+  it("gives brighter midpoints in linear light than in sRGB", () => {
+    const black = toMixingSpace({ r: 0, g: 0, b: 0 }, "linear");
+    const white = toMixingSpace({ r: 255, g: 255, b: 255 }, "linear");
+    const mid = fromMixingSpace(
+      [0, 1, 2].map((i) => (black[i] + white[i]) / 2) as [number, number, number],
+      "linear"
+    );
+    expect(mid.r).toBeGreaterThan(180);
+  });
+});
+
+describe("srgbToDisplayP3", () => {
+  it("keeps neutrals neutral", () => {
+    const gray = srgbToDisplayP3({ r: 128, g: 128, b: 128 });
+    expect(gray.r).toBeCloseTo(128, 1);
+    expect(gray.g).toBeCloseTo(128, 1);
+    expect(gray.b).toBeCloseTo(128, 1);
+  });
+
+  it("pulls saturated sRGB colors inward in P3", () => {
+    const red = srgbToDisplayP3({ r: 255, g: 0, b: 0 });
+    expect(red.r).toBeLessThan(240);
+    expect(red.g).toBeGreaterThan(40);
+  });
+});
@@ -0,0 +1,101 @@
+import type { Rgb } from "./color";
+import { linearToSrgb, srgbToLinear } from "./luminance";
+
+/**
+ * Where colors are mixed along a gradient.
+ * - srgb: straight on the encoded values, the original behaviour
+ * - linear: in linear light, so blends stay as bright as their ends
+ * - oklab: in a perceptual space, for even steps without muddy midtones
+ */
+export type ColorInterpolation = "srgb" | "linear" | "oklab";
+
+export const COLOR_INTERPOLATIONS: { value: ColorInterpolation; label: string }[] = [
+  { value: "srgb", label: "sRGB (classic)" },
+  { value: "linear", label: "Linear light" },
+  { value: "oklab", label: "OKLab (perceptual)" },
+];
+
+/**
+ * Color spaces images are processed in. Both share the sRGB transfer curve;
+ * Display P3 has wider primaries.
+ */
+export type WorkingColorSpace = "srgb" | "display-p3";
+
+type Triple = [number, number, number];
+
+const clamp255 = (value: number) => Math.min(255, Math.max(0, value));
+
+const toLinear = ({ r, g, b }: Rgb): Triple => [
+  srgbToLinear(r / 255),
+  srgbToLinear(g / 255),
+  srgbToLinear(b / 255),
+];
+
+const fromLinear = ([r, g, b]: Triple): Rgb => ({
+  r: clamp255(linearToSrgb(r) * 255),
+  g: clamp255(linearToSrgb(g) * 255),
+  b: clamp255(linearToSrgb(b) * 255),
+});
+
+/**
+ * Converts an sRGB color to OKLab (L 0-1, a and b roughly -0.4 to 0.4).
+ * See https://bottosson.github.io/posts/oklab/
+ */
+export const rgbToOklab = (rgb: Rgb): Triple => {
+  const [r, g, b] = toLinear(rgb);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+};
+
+/**
+ * Converts OKLab back to sRGB, clipping colors outside the sRGB gamut.
+ */
+export const oklabToRgb = ([L, a, b]: Triple): Rgb => {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+  return fromLinear([
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ]);
+};
+
+/**
+ * Converts an sRGB color into the coordinates `interpolation` mixes in.
+ * Mix the results linearly, then convert back with {@link fromMixingSpace}.
+ */
+export const toMixingSpace = (rgb: Rgb, interpolation: ColorInterpolation): Triple => {
+  if (interpolation === "linear") return toLinear(rgb);
+  if (interpolation === "oklab") return rgbToOklab(rgb);
+  return [rgb.r, rgb.g, rgb.b];
+};
+
+/**
+ * Inverse of {@link toMixingSpace}.
+ */
+export const fromMixingSpace = (values: Triple, interpolation: ColorInterpolation): Rgb => {
+  if (interpolation === "linear") return fromLinear(values);
+  if (interpolation === "oklab") return oklabToRgb(values);
+  const [r, g, b] = values;
+  return { r, g, b };
+};
+
+/**
+ * Re-expresses an sRGB color in Display P3 so it looks the same when drawn
+ * into a P3 canvas. Every sRGB color fits inside P3, so nothing is clipped.
+ */
+export const srgbToDisplayP3 = (rgb: Rgb): Rgb => {
+  const [r, g, b] = toLinear(rgb);
+  return fromLinear([
+    0.8224621 * r + 0.177538 * g,
+    0.0331941 * r + 0.9668058 * g,
+    0.0170827 * r + 0.0723974 * g + 0.9105199 * b,
+  ]);
+};
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CROP,
+  applyCropTransform,
+  centeredCropRect,
+  cropRegion,
+  flipCrop,
+  isCropActive,
+  moveCropRect,
+  resizeCropRect,
+  rotateCrop,
+  setCropAspect,
+  type CropContext,
+} from "./crop";
+
+/** Tracks the current transform so points can be mapped through it */
+const matrixContext = () => {
+  // [a, b, c, d, e, f] as in DOMMatrix
+  let m = [1, 0, 0, 1, 0, 0];
+  const multiply = (n: number[]) => {
+    m = [
+      m[0] * n[0] + m[2] * n[1],
+      m[1] * n[0] + m[3] * n[1],
+      m[0] * n[2] + m[2] * n[3],
+      m[1] * n[2] + m[3] * n[3],
+      m[0] * n[4] + m[2] * n[5] + m[4],
+      m[1] * n[4] + m[3] * n[5] + m[5],
+    ];
+  };
+  const ctx: CropContext = {
+    translate: (x, y) => multiply([1, 0, 0, 1, x, y]),
+    scale: (x, y) => multiply([x, 0, 0, y, 0, 0]),
+    rotate: (angle) =>
+      multiply([Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0]),
+  };
+  const map = (x: number, y: number) => [
+    Math.round(m[0] * x + m[2] * y + m[4]),
+    Math.round(m[1] * x + m[3] * y + m[5]),
+  ];
+  return { ctx, map };
+};
+
+describe("isCropActive", () => {
+  it("is off for the defaults", () => {
+    expect(isCropActive(DEFAULT_CROP)).toBe(false);
+    expect(isCropActive({ ...DEFAULT_CROP, aspect: "1:1" })).toBe(false);
+  });
+
+  it("turns on with rotation, flips or a smaller rectangle", () => {
+    expect(isCropActive({ ...DEFAULT_CROP, rotation: 90 })).toBe(true);
+    expect(isCropActive({ ...DEFAULT_CROP, flipV: true })).toBe(true);
+    expect(
+      isCropActive({ ...DEFAULT_CROP, rect: { x: 0, y: 0, width: 0.5, height: 1 } })
+    ).toBe(true);
+  });
+});
+
+describe("cropRegion", () => {
+  it("measures in pixels of the rotated image", () => {
+    const crop = { ...DEFAULT_CROP, rotation: 90 as const, rect: { x: 0.5, y: 0, width: 0.5, height: 0.25 } };
+    expect(cropRegion(400, 200, crop)).toEqual({ x: 100, y: 0, width: 100, height: 100 });
+  });
+
+  it("never collapses below one pixel", () => {
+    const crop = { ...DEFAULT_CROP, rect: { x: 1, y: 1, width: 0, height: 0 } };
+    expect(cropRegion(10, 10, crop)).toEqual({ x: 9, y: 9, width: 1, height: 1 });
+  });
+});
+
+describe("centeredCropRect", () => {
+  it("fits the ratio in pixels, not fractions", () => {
+    expect(centeredCropRect(200, 100, 1)).toEqual({ x: 0.25, y: 0, width: 0.5, height: 1 });
+    expect(centeredCropRect(100, 200, 1)).toEqual({ x: 0, y: 0.25, width: 1, height: 0.5 });
+  });
+});
+
+describe("setCropAspect", () => {
+  it("refits fixed ratios and leaves free crops alone", () => {
+    const square = setCropAspect(DEFAULT_CROP, "1:1", 200, 100);
+    expect(square.rect).toEqual({ x: 0.25, y: 0, width: 0.5, height: 1 });
+    expect(setCropAspect(square, "free", 200, 100).rect).toEqual(square.rect);
+  });
+});
+
+describe("rotateCrop", () => {
+  const crop = { ...DEFAULT_CROP, flipH: true, rect: { x: 0, y: 0, width: 0.5, height: 0.25 } };
+
+  it("turns the rectangle and swaps the flips", () => {
+    expect(rotateCrop(crop, "cw", 100, 100)).toEqual({
+      ...crop,
+      rotation: 90,
+      flipH: false,
+      flipV: true,
+      rect: { x: 0.75, y: 0, width: 0.25, height: 0.5 },
+    });
+    expect(rotateCrop(crop, "ccw", 100, 100).rect).toEqual({
+      x: 0,
+      y: 0.5,
+      width: 0.25,
+      height: 0.5,
+    });
+  });
+
+  it("undoes a clockwise turn with a counter-clockwise one", () => {
+    expect(rotateCrop(rotateCrop(crop, "cw", 100, 50), "ccw", 100, 50)).toEqual(crop);
+  });
+
+  it("keeps fixed aspects in pixels", () => {
+    const portrait = setCropAspect(DEFAULT_CROP, "4:5", 1000, 1000);
+    const rotated = rotateCrop(portrait, "cw", 1000, 500);
+    const region = cropRegion(1000, 500, rotated);
+    expect(region.width / region.height).toBeCloseTo(0.8, 2);
+  });
+});
+
+describe("flipCrop", () => {
+  it("mirrors the rectangle", () => {
+    const crop = { ...DEFAULT_CROP, rect: { x: 0.1, y: 0.2, width: 0.3, height: 0.4 } };
+    expect(flipCrop(crop, "horizontal").rect.x).toBeCloseTo(0.6);
+    expect(flipCrop(crop, "vertical").rect.y).toBeCloseTo(0.4);
+    expect(flipCrop(flipCrop(crop, "horizontal"), "horizontal")).toEqual({
+      ...crop,
+      rect: { ...crop.rect, x: expect.closeTo(0.1) },
+    });
+  });
+});
+
+describe("moveCropRect", () => {
+  it("stops at the edges", () => {
+    const rect = { x: 0.5, y: 0.5, width: 0.4, height: 0.4 };
+    expect(moveCropRect(rect, 0.5, -1)).toEqual({ ...rect, x: 0.6, y: 0 });
+  });
+});
+
+describe("resizeCropRect", () => {
+  const rect = { x: 0.25, y: 0.25, width: 0.5, height: 0.5 };
+
+  it("anchors the opposite corner", () => {
+    expect(resizeCropRect(rect, "nw", 0, 0.5, null)).toEqual({
+      x: 0,
+      y: 0.5,
+      width: 0.75,
+      height: 0.25,
+    });
+  });
+
+  it("stays inside the image and above the minimum size", () => {
+    expect(resizeCropRect(rect, "se", 2, 0.25, null)).toEqual({
+      x: 0.25,
+      y: 0.25,
+      width: 0.75,
+      height: 0.02,
+    });
+  });
+
+  it("keeps a fixed ratio within the bounds", () => {
+    const result = resizeCropRect(rect, "se", 1, 0.5, 1);
+    expect(result).toEqual({ x: 0.25, y: 0.25, width: 0.75, height: 0.75 });
+  });
+});
+
+describe("applyCropTransform", () => {
+  it("maps the upright image into the cropped, rotated frame", () => {
+    const { ctx, map } = matrixContext();
+    const crop = { ...DEFAULT_CROP, rotation: 90 as const, rect: { x: 0.5, y: 0, width: 0.5, height: 1 } };
+    applyCropTransform(ctx, crop, 40, 20);
+    // The rotated image is 20x40; the crop keeps its right half, which
+    // holds the upright top-left corner
+    expect(map(0, 0)).toEqual([10, 0]);
+    expect(map(40, 20)).toEqual([-10, 40]);
+  });
+
+  it("mirrors flipped images", () => {
+    const { ctx, map } = matrixContext();
+    applyCropTransform(ctx, { ...DEFAULT_CROP, flipH: true }, 40, 20);
+    expect(map(0, 0)).toEqual([40, 0]);
+    expect(map(40, 20)).toEqual([0, 20]);
+  });
+});
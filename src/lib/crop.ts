@@ -0,0 +1,245 @@
+/**
+ * Output shape of the crop. "free" lets the rectangle take any proportions.
+ */
+export type CropAspect = "free" | "1:1" | "4:5" | "9:16" | "16:9" | "1.91:1";
+
+export const CROP_ASPECTS: { value: CropAspect; label: string; ratio: number | null }[] = [
+  { value: "free", label: "Free", ratio: null },
+  { value: "1:1", label: "1:1", ratio: 1 },
+  { value: "4:5", label: "4:5", ratio: 4 / 5 },
+  { value: "9:16", label: "9:16", ratio: 9 / 16 },
+  { value: "16:9", label: "16:9", ratio: 16 / 9 },
+  { value: "1.91:1", label: "1.91:1", ratio: 1.91 },
+];
+
+export type CropRotation = 0 | 90 | 180 | 270;
+
+/**
+ * A rectangle in fractions of the rotated and flipped image.
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Geometry applied before the effect: the upright photo is rotated
+ * clockwise by `rotation`, then flipped, then cut down to `rect`.
+ */
+export interface CropSettings {
+  rotation: CropRotation;
+  flipH: boolean;
+  flipV: boolean;
+  aspect: CropAspect;
+  rect: CropRect;
+}
+
+export const FULL_CROP_RECT: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const DEFAULT_CROP: CropSettings = {
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  aspect: "free",
+  rect: FULL_CROP_RECT,
+};
+
+/** Smallest crop edge, as a fraction of the image */
+export const MIN_CROP_SIZE = 0.02;
+
+export type CropHandle = "nw" | "ne" | "sw" | "se";
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Whether the crop changes the image at all.
+ */
+export const isCropActive = (crop: CropSettings | null | undefined): crop is CropSettings =>
+  !!crop &&
+  (crop.rotation !== 0 ||
+    crop.flipH ||
+    crop.flipV ||
+    crop.rect.x > 0 ||
+    crop.rect.y > 0 ||
+    crop.rect.width < 1 ||
+    crop.rect.height < 1);
+
+/**
+ * Size of a `width` x `height` image after rotation.
+ */
+export const orientedSize = (width: number, height: number, rotation: CropRotation) =>
+  rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+
+/**
+ * The crop rectangle in whole pixels of the rotated `width` x `height` image.
+ */
+export const cropRegion = (width: number, height: number, crop: CropSettings) => {
+  const oriented = orientedSize(width, height, crop.rotation);
+  const x = clamp(Math.round(crop.rect.x * oriented.width), 0, oriented.width - 1);
+  const y = clamp(Math.round(crop.rect.y * oriented.height), 0, oriented.height - 1);
+  return {
+    x,
+    y,
+    width: clamp(Math.round(crop.rect.width * oriented.width), 1, oriented.width - x),
+    height: clamp(Math.round(crop.rect.height * oriented.height), 1, oriented.height - y),
+  };
+};
+
+/**
+ * The pixel aspect `ratio` expressed in the fractional units of a
+ * `width` x `height` image, where a square is usually not 1:1.
+ */
+export const relativeRatio = (ratio: number, width: number, height: number) =>
+  (ratio * height) / width;
+
+/**
+ * The largest centered rectangle with pixel aspect `ratio` that fits a
+ * `width` x `height` image.
+ */
+export const centeredCropRect = (width: number, height: number, ratio: number): CropRect => {
+  const relative = relativeRatio(ratio, width, height);
+  const w = relative > 1 ? 1 : relative;
+  const h = relative > 1 ? 1 / relative : 1;
+  return { x: (1 - w) / 2, y: (1 - h) / 2, width: w, height: h };
+};
+
+const aspectRatio = (aspect: CropAspect) =>
+  CROP_ASPECTS.find((a) => a.value === aspect)?.ratio ?? null;
+
+/**
+ * Switches the aspect preset. A fixed ratio recenters the rectangle at the
+ * largest size that fits; "free" keeps the current one.
+ * @param width - Upright image width, before rotation.
+ */
+export const setCropAspect = (
+  crop: CropSettings,
+  aspect: CropAspect,
+  width: number,
+  height: number
+): CropSettings => {
+  const ratio = aspectRatio(aspect);
+  if (!ratio) return { ...crop, aspect };
+  const oriented = orientedSize(width, height, crop.rotation);
+  return { ...crop, aspect, rect: centeredCropRect(oriented.width, oriented.height, ratio) };
+};
+
+/**
+ * Turns the image a quarter turn. The rectangle turns with it, except
+ * that a fixed aspect is refitted so the output keeps its proportions.
+ * @param width - Upright image width, before rotation.
+ */
+export const rotateCrop = (
+  crop: CropSettings,
+  direction: "cw" | "ccw",
+  width: number,
+  height: number
+): CropSettings => {
+  const { x, y, width: w, height: h } = crop.rect;
+  const rotated: CropSettings = {
+    ...crop,
+    rotation: ((crop.rotation + (direction === "cw" ? 90 : 270)) % 360) as CropRotation,
+    // A quarter turn maps a horizontal flip onto a vertical one
+    flipH: crop.flipV,
+    flipV: crop.flipH,
+    rect:
+      direction === "cw"
+        ? { x: 1 - y - h, y: x, width: h, height: w }
+        : { x: y, y: 1 - x - w, width: h, height: w },
+  };
+  return aspectRatio(crop.aspect)
+    ? setCropAspect(rotated, crop.aspect, width, height)
+    : rotated;
+};
+
+/**
+ * Mirrors the image; the rectangle mirrors with it.
+ */
+export const flipCrop = (crop: CropSettings, axis: "horizontal" | "vertical"): CropSettings => {
+  const { rect } = crop;
+  return axis === "horizontal"
+    ? { ...crop, flipH: !crop.flipH, rect: { ...rect, x: 1 - rect.x - rect.width } }
+    : { ...crop, flipV: !crop.flipV, rect: { ...rect, y: 1 - rect.y - rect.height } };
+};
+
+/**
+ * Moves `rect` by a fractional offset, stopping at the image edges.
+ */
+export const moveCropRect = (rect: CropRect, dx: number, dy: number): CropRect => ({
+  ...rect,
+  x: clamp(rect.x + dx, 0, 1 - rect.width),
+  y: clamp(rect.y + dy, 0, 1 - rect.height),
+});
+
+/**
+ * Drags one corner of `rect` to (`x`, `y`) while the opposite corner stays
+ * put. The result stays inside the image and, given a `ratio` in
+ * fractional units (see `relativeRatio`), keeps that aspect.
+ */
+export const resizeCropRect = (
+  rect: CropRect,
+  handle: CropHandle,
+  x: number,
+  y: number,
+  ratio: number | null
+): CropRect => {
+  const dirX = handle === "nw" || handle === "sw" ? -1 : 1;
+  const dirY = handle === "nw" || handle === "ne" ? -1 : 1;
+  const anchorX = dirX > 0 ? rect.x : rect.x + rect.width;
+  const anchorY = dirY > 0 ? rect.y : rect.y + rect.height;
+  const limitX = dirX > 0 ? 1 - anchorX : anchorX;
+  const limitY = dirY > 0 ? 1 - anchorY : anchorY;
+
+  let w = clamp((x - anchorX) * dirX, MIN_CROP_SIZE, limitX);
+  let h = clamp((y - anchorY) * dirY, MIN_CROP_SIZE, limitY);
+  if (ratio) {
+    // Follow whichever edge moved further, then shrink back inside
+    if (w / h > ratio) h = w / ratio;
+    else w = h * ratio;
+    if (w > limitX) {
+      w = limitX;
+      h = w / ratio;
+    }
+    if (h > limitY) {
+      h = limitY;
+      w = h * ratio;
+    }
+  }
+
+  return {
+    x: dirX > 0 ? anchorX : anchorX - w,
+    y: dirY > 0 ? anchorY : anchorY - h,
+    width: w,
+    height: h,
+  };
+};
+
+/**
+ * The transform calls the crop is applied with. Both
+ * `CanvasRenderingContext2D` and `OffscreenCanvasRenderingContext2D` fit.
+ */
+export interface CropContext {
+  translate(x: number, y: number): void;
+  scale(x: number, y: number): void;
+  rotate(angle: number): void;
+}
+
+/**
+ * Sets up `ctx` so that drawing the upright `width` x `height` image at
+ * (0, 0) lands rotated and flipped, with the crop region at the origin.
+ */
+export const applyCropTransform = (
+  ctx: CropContext,
+  crop: CropSettings,
+  width: number,
+  height: number
+) => {
+  const oriented = orientedSize(width, height, crop.rotation);
+  const region = cropRegion(width, height, crop);
+  ctx.translate(oriented.width / 2 - region.x, oriented.height / 2 - region.y);
+  ctx.scale(crop.flipH ? -1 : 1, crop.flipV ? -1 : 1);
+  ctx.rotate((crop.rotation * Math.PI) / 180);
+  ctx.translate(-width / 2, -height / 2);
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_EFFECT_SETTINGS,
+  applyEffect,
+  applyEffectToPixels,
+  buildEffectLut,
+  type EffectSettings,
+} from "./effect";
+
+const settings = (overrides: Partial<EffectSettings> = {}): EffectSettings => ({
+  ...DEFAULT_EFFECT_SETTINGS,
+  colors: { shadow: "#102030", highlight: "#f0e0d0" },
+  ...overrides,
+});
+
+const pixels = (...rgba: number[]) => new Uint8ClampedArray(rgba);
+
+describe("buildEffectLut", () => {
+  it("maps black to the shadow and white to the highlight", () => {
+    const lut = buildEffectLut(settings());
+    expect(Array.from(lut.subarray(0, 3))).toEqual([0x10, 0x20, 0x30]);
+    expect(Array.from(lut.subarray(255 * 3))).toEqual([0xf0, 0xe0, 0xd0]);
+  });
+
+  it("scales gray by the channel multipliers in classic mode", () => {
+    const lut = buildEffectLut(settings({ mode: "classic" }));
+    expect(Array.from(lut.subarray(0, 3))).toEqual([0, 0, 0]);
+    // 255 * 0.5, 255 * 0.2, 255 * 1.2 clamped
+    expect(Array.from(lut.subarray(255 * 3))).toEqual([128, 51, 255]);
+  });
+
+  it("treats duotone as a two-stop gradient map", () => {
+    const duotone = settings();
+    const gradient = settings({
+      mode: "gradient",
+      gradient: [
+        { position: 0, color: duotone.colors.shadow },
+        { position: 1, color: duotone.colors.highlight },
+      ],
+    });
+    expect(buildEffectLut(gradient)).toEqual(buildEffectLut(duotone));
+  });
+
+  it("passes through every stop of a gradient map", () => {
+    const lut = buildEffectLut(
+      settings({
+        mode: "gradient",
+        gradient: [
+          { position: 0, color: "#165027" },
+          { position: 0.5, color: "#ffffff" },
+          { position: 1, color: "#f99fd2" },
+        ],
+      })
+    );
+    expect(Array.from(lut.subarray(0, 3))).toEqual([0x16, 0x50, 0x27]);
+    // Level 128 rounds to the white midpoint stop
+    expect(Array.from(lut.subarray(128 * 3, 128 * 3 + 3))).toEqual([255, 255, 255]);
+    expect(Array.from(lut.subarray(255 * 3))).toEqual([0xf9, 0x9f, 0xd2]);
+  });
+
+  it("keeps the end colors exact in every interpolation space", () => {
+    for (const interpolation of ["linear", "oklab"] as const) {
+      const lut = buildEffectLut(settings({ interpolation }));
+      expect(Array.from(lut.subarray(0, 3))).toEqual([0x10, 0x20, 0x30]);
+      expect(Array.from(lut.subarray(255 * 3))).toEqual([0xf0, 0xe0, 0xd0]);
+    }
+  });
+
+  it("converts the colors for Display P3 pixels", () => {
+    const gray = settings({ colors: { shadow: "#808080", highlight: "#ff0000" } });
+    const lut = buildEffectLut(gray, "display-p3");
+    // Neutrals are the same in both spaces, saturated colors are not
+    expect(Array.from(lut.subarray(0, 3))).toEqual([128, 128, 128]);
+    expect(lut[255 * 3]).toBeLessThan(255);
+    expect(lut[255 * 3 + 1]).toBeGreaterThan(0);
+  });
+
+  it("throws on an invalid hex color", () => {
+    expect(() =>
+      buildEffectLut(settings({ colors: { shadow: "#12345", highlight: "#fff" } }))
+    ).toThrow(RangeError);
+    expect(() =>
+      buildEffectLut(settings({ colors: { shadow: "#000", highlight: "pink" } }))
+    ).toThrow(/Invalid hex color/);
+  });
+});
+
+describe("applyEffectToPixels", () => {
+  it("recolors a 1x1 image", () => {
+    const data = pixels(255, 255, 255, 255);
+    applyEffectToPixels(data, settings());
+    expect(Array.from(data)).toEqual([0xf0, 0xe0, 0xd0, 255]);
+  });
+
+  it("leaves alpha untouched, including fully transparent pixels", () => {
+    const data = pixels(0, 0, 0, 0, 255, 255, 255, 128, 0, 0, 0, 7);
+    applyEffectToPixels(data, settings());
+    expect([data[3], data[7], data[11]]).toEqual([0, 128, 7]);
+    expect(Array.from(data.subarray(0, 3))).toEqual([0x10, 0x20, 0x30]);
+  });
+
+  it("agrees with the lookup table for every gray level", () => {
+    const effect = settings({
+      tone: { ...DEFAULT_EFFECT_SETTINGS.tone, gamma: 1.4, contrast: 1.2 },
+    });
+    const data = new Uint8ClampedArray(256 * 4);
+    for (let level = 0; level < 256; level++) {
+      data.fill(level, level * 4, level * 4 + 4);
+    }
+    applyEffectToPixels(data, effect);
+
+    const lut = buildEffectLut(effect);
+    for (let level = 0; level < 256; level++) {
+      expect(Array.from(data.subarray(level * 4, level * 4 + 3))).toEqual(
+        Array.from(lut.subarray(level * 3, level * 3 + 3))
+      );
+    }
+  });
+
+  it("handles an empty buffer", () => {
+    const progress: number[] = [];
+    applyEffectToPixels(new Uint8ClampedArray(0), settings(), (fraction) =>
+      progress.push(fraction)
+    );
+    expect(progress).toEqual([1]);
+  });
+
+  it("reports monotonic progress ending at 1", () => {
+    const progress: number[] = [];
+    applyEffectToPixels(new Uint8ClampedArray(600_000 * 4), settings(), (fraction) =>
+      progress.push(fraction)
+    );
+    expect(progress.at(-1)).toBe(1);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+  });
+});
+
+describe("applyEffect", () => {
+  it("processes an ImageData-like object in place", () => {
+    const image = { data: pixels(0, 0, 0, 255), width: 1, height: 1 };
+    expect(applyEffect(image, settings())).toBe(image);
+    expect(Array.from(image.data)).toEqual([0x10, 0x20, 0x30, 255]);
+  });
+
+  it("rejects a buffer that doesn't match the dimensions", () => {
+    const image = { data: pixels(0, 0, 0, 255), width: 2, height: 1 };
+    expect(() => applyEffect(image, settings())).toThrow(RangeError);
+  });
+});
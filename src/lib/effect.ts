@@ -0,0 +1,176 @@
+import {
+  DEFAULT_GRADIENT,
+  createGradientSampler,
+  duotoneStops,
+  type GradientStop,
+} from "./gradient";
+import type { Rgb } from "./color";
+import {
+  srgbToDisplayP3,
+  type ColorInterpolation,
+  type WorkingColorSpace,
+} from "./colorspace";
+import { createLuminance } from "./luminance";
+import { PALETTES } from "./palettes";
+import { DEFAULT_TONE_SETTINGS, buildToneCurve, type ToneSettings } from "./tone";
+
+// --- "duotone" interpolates between two colors, "gradient" maps brightness
+// onto any number of color stops, "classic" scales the gray channel ---
+export type EffectMode = "duotone" | "gradient" | "classic";
+
+export const EFFECT_MODES: { value: EffectMode; label: string }[] = [
+  { value: "duotone", label: "Duotone" },
+  { value: "gradient", label: "Gradient map" },
+  { value: "classic", label: "Classic" },
+];
+
+// --- Shadow/highlight pair used by the duotone effect ---
+export interface DuotoneColors {
+  shadow: string;
+  highlight: string;
+}
+
+// --- Per-channel multipliers used by the classic effect ---
+export interface ClassicParams {
+  redMultiplier: number;
+  greenMultiplier: number;
+  blueMultiplier: number;
+}
+
+export interface EffectSettings {
+  mode: EffectMode;
+  colors: DuotoneColors;
+  /** Color stops for the gradient map mode */
+  gradient: GradientStop[];
+  classic: ClassicParams;
+  tone: ToneSettings;
+  /** Space the duotone and gradient colors are blended in */
+  interpolation: ColorInterpolation;
+}
+
+export const DEFAULT_EFFECT_SETTINGS: EffectSettings = {
+  mode: "duotone",
+  colors: {
+    shadow: PALETTES[0].shadow,
+    highlight: PALETTES[0].highlight,
+  },
+  gradient: DEFAULT_GRADIENT,
+  classic: {
+    redMultiplier: 0.5,
+    greenMultiplier: 0.2,
+    blueMultiplier: 1.2,
+  },
+  tone: DEFAULT_TONE_SETTINGS,
+  interpolation: "srgb",
+};
+
+/**
+ * Anything shaped like `ImageData`: RGBA bytes in row-major order.
+ */
+export interface ImageDataLike {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  /** Space the bytes are encoded in; sRGB when missing */
+  colorSpace?: WorkingColorSpace;
+}
+
+/**
+ * Precomputes the output color for every rounded brightness level (0-255) as
+ * packed RGB triples. Both modes only depend on brightness, so the CPU loop
+ * and the GPU preview share this table and produce identical colors.
+ * The duotone is the two-stop case of the gradient map.
+ * @param colorSpace - Space of the pixels the table is applied to. Colors
+ * are picked in sRGB and converted, so they look the same either way.
+ * @throws RangeError when a duotone or gradient color isn't valid hex.
+ */
+export const buildEffectLut = (
+  settings: EffectSettings,
+  colorSpace: WorkingColorSpace = "srgb"
+): Uint8ClampedArray => {
+  const sample =
+    settings.mode === "classic"
+      ? null
+      : createGradientSampler(
+          settings.mode === "gradient"
+            ? settings.gradient
+            : duotoneStops(settings.colors),
+          settings.interpolation
+        );
+  const { redMultiplier, greenMultiplier, blueMultiplier } = settings.classic;
+  const toneCurve = buildToneCurve(settings.tone);
+  const lut = new Uint8ClampedArray(256 * 3);
+
+  const toOutput = colorSpace === "display-p3" ? srgbToDisplayP3 : (rgb: Rgb) => rgb;
+
+  for (let level = 0; level < 256; level++) {
+    const ratio = toneCurve[level];
+    const gray = ratio * 255;
+    const { r, g, b } = toOutput(
+      sample
+        ? sample(ratio)
+        : {
+            r: Math.min(255, gray * redMultiplier),
+            g: Math.min(255, gray * greenMultiplier),
+            b: Math.min(255, gray * blueMultiplier),
+          }
+    );
+    const at = level * 3;
+    lut[at] = r;
+    lut[at + 1] = g;
+    lut[at + 2] = b;
+  }
+
+  return lut;
+};
+
+// Pixels processed between progress callbacks
+const PROGRESS_STEP = 1 << 18;
+
+/**
+ * Applies the effect in place to RGBA pixel data. Alpha is left untouched.
+ * @param data - RGBA bytes, e.g. from `ImageData.data`.
+ * @param settings - The effect settings.
+ * @param onProgress - Optional callback receiving the fraction (0-1) done.
+ * @param colorSpace - Space the bytes are encoded in.
+ */
+export const applyEffectToPixels = (
+  data: Uint8ClampedArray,
+  settings: EffectSettings,
+  onProgress?: (fraction: number) => void,
+  colorSpace: WorkingColorSpace = "srgb"
+) => {
+  const luminance = createLuminance(settings.tone.luminance);
+  const lut = buildEffectLut(settings, colorSpace);
+  const progressStride = PROGRESS_STEP * 4;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (onProgress && i % progressStride === 0) onProgress(i / data.length);
+
+    const at = Math.round(luminance(data[i], data[i + 1], data[i + 2])) * 3;
+    data[i] = lut[at];
+    data[i + 1] = lut[at + 1];
+    data[i + 2] = lut[at + 2];
+  }
+
+  onProgress?.(1);
+};
+
+/**
+ * Applies the effect in place to an `ImageData`-like buffer, in the color
+ * space it reports.
+ * @throws RangeError when the buffer size doesn't match its dimensions.
+ */
+export const applyEffect = <T extends ImageDataLike>(
+  image: T,
+  settings: EffectSettings,
+  onProgress?: (fraction: number) => void
+): T => {
+  if (image.data.length !== image.width * image.height * 4) {
+    throw new RangeError(
+      `Expected ${image.width * image.height * 4} bytes for a ${image.width}x${image.height} image, got ${image.data.length}`
+    );
+  }
+  applyEffectToPixels(image.data, settings, onProgress, image.colorSpace);
+  return image;
+};
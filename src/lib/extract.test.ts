@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { parseHex, type Rgb } from "./color";
+import {
+  MIN_PAIR_CONTRAST,
+  contrastRatio,
+  extractColors,
+  suggestDuotonePairs,
+} from "./extract";
+
+// Pixels of each color in the given counts
+const pixels = (...runs: [Rgb, number, number?][]) => {
+  const data: number[] = [];
+  for (const [{ r, g, b }, count, alpha = 255] of runs) {
+    for (let i = 0; i < count; i++) data.push(r, g, b, alpha);
+  }
+  return Uint8ClampedArray.from(data);
+};
+
+const NAVY = { r: 13, g: 59, b: 102 };
+const YELLOW = { r: 244, g: 211, b: 94 };
+const WHITE = { r: 255, g: 255, b: 255 };
+
+const near = (actual: Rgb, expected: Rgb) =>
+  Math.max(
+    Math.abs(actual.r - expected.r),
+    Math.abs(actual.g - expected.g),
+    Math.abs(actual.b - expected.b)
+  );
+
+describe("extractColors", () => {
+  it("finds the dominant colors heaviest first", () => {
+    const clusters = extractColors(pixels([NAVY, 300], [YELLOW, 100]), 4);
+    expect(clusters).toHaveLength(2);
+    expect(near(clusters[0].color, NAVY)).toBeLessThan(1);
+    expect(clusters[0].weight).toBeCloseTo(0.75);
+    expect(near(clusters[1].color, YELLOW)).toBeLessThan(1);
+    expect(clusters[1].weight).toBeCloseTo(0.25);
+  });
+
+  it("merges close shades into one cluster", () => {
+    const clusters = extractColors(
+      pixels([NAVY, 100], [{ r: 15, g: 61, b: 104 }, 100], [YELLOW, 100]),
+      2
+    );
+    expect(clusters).toHaveLength(2);
+    expect(near(clusters[0].color, NAVY)).toBeLessThan(3);
+  });
+
+  it("skips transparent pixels", () => {
+    const clusters = extractColors(pixels([NAVY, 10], [WHITE, 1000, 0]));
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].weight).toBe(1);
+    expect(extractColors(pixels([WHITE, 10, 0]))).toEqual([]);
+  });
+
+  it("gives the same result every time", () => {
+    const data = pixels([NAVY, 50], [YELLOW, 80], [WHITE, 20], [{ r: 200, g: 30, b: 60 }, 40]);
+    expect(extractColors(data)).toEqual(extractColors(data));
+  });
+});
+
+describe("contrastRatio", () => {
+  it("matches the WCAG range", () => {
+    expect(contrastRatio({ r: 0, g: 0, b: 0 }, WHITE)).toBeCloseTo(21);
+    expect(contrastRatio(WHITE, WHITE)).toBe(1);
+    expect(contrastRatio(parseHex("#165027"), parseHex("#f99fd2"))).toBeCloseTo(4.95, 1);
+  });
+});
+
+describe("suggestDuotonePairs", () => {
+  it("keeps colors that already contrast, darker one as the shadow", () => {
+    const [best] = suggestDuotonePairs([
+      { color: YELLOW, weight: 0.5 },
+      { color: NAVY, weight: 0.5 },
+    ]);
+    expect(best).toMatchObject({ shadow: "#0d3b66", highlight: "#f4d35e" });
+    expect(best.contrast).toBeGreaterThan(MIN_PAIR_CONTRAST);
+  });
+
+  it("pulls low-contrast colors apart in lightness", () => {
+    const pairs = suggestDuotonePairs([
+      { color: { r: 120, g: 90, b: 160 }, weight: 0.6 },
+      { color: { r: 150, g: 140, b: 120 }, weight: 0.4 },
+    ]);
+    expect(pairs.length).toBeGreaterThan(0);
+    for (const { shadow, highlight, contrast } of pairs) {
+      expect(contrast).toBeGreaterThanOrEqual(MIN_PAIR_CONTRAST);
+      expect(contrastRatio(parseHex(shadow), parseHex(highlight))).toBe(contrast);
+    }
+  });
+
+  it("makes a one-color pair from a single color", () => {
+    const pairs = suggestDuotonePairs([{ color: { r: 200, g: 30, b: 60 }, weight: 1 }]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].contrast).toBeGreaterThanOrEqual(MIN_PAIR_CONTRAST);
+  });
+
+  it("limits and de-duplicates suggestions", () => {
+    const colors = [NAVY, YELLOW, WHITE, { r: 14, g: 60, b: 103 }].map((color) => ({
+      color,
+      weight: 0.25,
+    }));
+    const pairs = suggestDuotonePairs(colors, 2);
+    expect(pairs).toHaveLength(2);
+    expect(new Set(pairs.map((pair) => `${pair.shadow}${pair.highlight}`)).size).toBe(2);
+    expect(suggestDuotonePairs(colors, 10).length).toBeLessThan(10);
+  });
+});
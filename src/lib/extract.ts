@@ -0,0 +1,224 @@
+import { parseHex, toHex, type Rgb } from "./color";
+import { oklabToRgb, rgbToOklab } from "./colorspace";
+import type { DuotoneColors } from "./effect";
+import { srgbToLinear } from "./luminance";
+
+/**
+ * A dominant color of an image and the share of pixels (0-1) closest to it.
+ */
+export interface ColorCluster {
+  color: Rgb;
+  weight: number;
+}
+
+/**
+ * A suggested shadow/highlight pair with its WCAG contrast ratio.
+ */
+export interface DuotonePair extends DuotoneColors {
+  contrast: number;
+}
+
+/** How many dominant colors {@link extractColors} looks for by default */
+export const EXTRACTED_COLORS = 8;
+
+/** How many pairs {@link suggestDuotonePairs} returns by default */
+export const SUGGESTED_PAIRS = 6;
+
+/**
+ * Pairs below this contrast are pulled apart in lightness until they reach
+ * it, so the photo's tones stay readable.
+ */
+export const MIN_PAIR_CONTRAST = 4.5;
+
+type Lab = [number, number, number];
+
+interface Point {
+  lab: Lab;
+  weight: number;
+}
+
+const KMEANS_ITERATIONS = 12;
+// Mostly transparent pixels (logo backgrounds) don't count
+const MIN_ALPHA = 128;
+// Pairs whose ends are both this close in OKLab count as the same suggestion
+const SIMILAR_PAIR_DISTANCE = 0.08;
+const LIGHTNESS_STEP = 0.01;
+
+const distanceSquared = (a: Lab, b: Lab) =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+// Buckets pixels by their top 5 bits per channel, so clustering works on a
+// few thousand weighted points instead of every pixel
+const histogram = (data: Uint8ClampedArray): Point[] => {
+  const sums = new Float64Array(32 * 32 * 32 * 4);
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < MIN_ALPHA) continue;
+    const bin = ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+    sums[bin * 4] += data[i];
+    sums[bin * 4 + 1] += data[i + 1];
+    sums[bin * 4 + 2] += data[i + 2];
+    sums[bin * 4 + 3]++;
+    total++;
+  }
+  const points: Point[] = [];
+  for (let bin = 0; bin < sums.length; bin += 4) {
+    const count = sums[bin + 3];
+    if (!count) continue;
+    const color = { r: sums[bin] / count, g: sums[bin + 1] / count, b: sums[bin + 2] / count };
+    points.push({ lab: rgbToOklab(color), weight: count / total });
+  }
+  return points;
+};
+
+// Deterministic k-means++ seeding: always take the point that k-means++
+// would most likely pick, so the same image gives the same suggestions
+const seedCentroids = (points: Point[], count: number) => {
+  const heaviest = points.reduce((best, point) => (point.weight > best.weight ? point : best));
+  const centroids: Lab[] = [heaviest.lab];
+  const nearest = points.map((point) => distanceSquared(point.lab, heaviest.lab));
+  while (centroids.length < count) {
+    let best = -1;
+    let bestScore = 0;
+    points.forEach((point, i) => {
+      const score = nearest[i] * point.weight;
+      if (score > bestScore) {
+        bestScore = score;
+        best = i;
+      }
+    });
+    // Fewer distinct colors than requested
+    if (best < 0) break;
+    const lab = points[best].lab;
+    centroids.push(lab);
+    points.forEach((point, i) => {
+      nearest[i] = Math.min(nearest[i], distanceSquared(point.lab, lab));
+    });
+  }
+  return centroids;
+};
+
+/**
+ * Finds the dominant colors of an image by k-means clustering its pixels in
+ * OKLab, heaviest first. Pass a downscaled copy; a few tens of thousands of
+ * pixels are plenty.
+ * @param data - RGBA pixels; mostly transparent ones are skipped.
+ */
+export const extractColors = (
+  data: Uint8ClampedArray,
+  count = EXTRACTED_COLORS
+): ColorCluster[] => {
+  const points = histogram(data);
+  if (!points.length) return [];
+  let centroids = seedCentroids(points, count);
+  let weights: number[] = [];
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+    for (const point of points) {
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      centroids.forEach((centroid, i) => {
+        const distance = distanceSquared(point.lab, centroid);
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearest = i;
+        }
+      });
+      const sum = sums[nearest];
+      sum[0] += point.lab[0] * point.weight;
+      sum[1] += point.lab[1] * point.weight;
+      sum[2] += point.lab[2] * point.weight;
+      sum[3] += point.weight;
+    }
+    const next = sums
+      .filter((sum) => sum[3] > 0)
+      .map(([l, a, b, weight]): Lab => [l / weight, a / weight, b / weight]);
+    weights = sums.filter((sum) => sum[3] > 0).map((sum) => sum[3]);
+    const settled =
+      next.length === centroids.length &&
+      next.every((centroid, i) => distanceSquared(centroid, centroids[i]) < 1e-8);
+    centroids = next;
+    if (settled) break;
+  }
+
+  return centroids
+    .map((lab, i) => ({ color: oklabToRgb(lab), weight: weights[i] }))
+    .sort((a, b) => b.weight - a.weight);
+};
+
+const relativeLuminance = ({ r, g, b }: Rgb) =>
+  0.2126 * srgbToLinear(r / 255) +
+  0.7152 * srgbToLinear(g / 255) +
+  0.0722 * srgbToLinear(b / 255);
+
+/**
+ * WCAG contrast ratio between two colors, from 1 to 21.
+ */
+export const contrastRatio = (a: Rgb, b: Rgb) => {
+  const [darker, lighter] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => x - y);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+// Darkens the shadow and lightens the highlight, keeping their hues, until
+// the pair reaches MIN_PAIR_CONTRAST
+const separate = (shadow: Lab, highlight: Lab) => {
+  let dark = shadow[0];
+  let light = highlight[0];
+  // Rounded to 8 bits so the contrast holds for the hex colors handed out
+  const toRgb = (lab: Lab, l: number) => parseHex(toHex(oklabToRgb([l, lab[1], lab[2]])));
+  while (
+    contrastRatio(toRgb(shadow, dark), toRgb(highlight, light)) < MIN_PAIR_CONTRAST &&
+    (dark > 0 || light < 1)
+  ) {
+    dark = Math.max(0, dark - LIGHTNESS_STEP);
+    light = Math.min(1, light + LIGHTNESS_STEP);
+  }
+  return {
+    shadow: toRgb(shadow, dark),
+    highlight: toRgb(highlight, light),
+    shift: shadow[0] - dark + (light - highlight[0]),
+  };
+};
+
+/**
+ * Builds contrasting shadow/highlight pairs from an image's dominant colors,
+ * best first. Pairs of prominent, differently hued colors rank highest;
+ * colors are kept as found when they already contrast enough, so brand
+ * colors come through exactly.
+ */
+export const suggestDuotonePairs = (
+  colors: ColorCluster[],
+  count = SUGGESTED_PAIRS
+): DuotonePair[] => {
+  const labs = colors.map(({ color }) => rgbToOklab(color));
+  const candidates: (DuotonePair & { score: number; ends: [Lab, Lab] })[] = [];
+
+  colors.forEach((first, i) => {
+    colors.slice(i).forEach((second, offset) => {
+      const j = i + offset;
+      const [dark, light] = labs[i][0] <= labs[j][0] ? [labs[i], labs[j]] : [labs[j], labs[i]];
+      const { shadow, highlight, shift } = separate(dark, light);
+      const hueDistance = Math.hypot(dark[1] - light[1], dark[2] - light[2]);
+      candidates.push({
+        shadow: toHex(shadow),
+        highlight: toHex(highlight),
+        contrast: contrastRatio(shadow, highlight),
+        score: (Math.sqrt(first.weight * second.weight) * (0.1 + hueDistance)) / (0.1 + shift),
+        ends: [rgbToOklab(shadow), rgbToOklab(highlight)],
+      });
+    });
+  });
+
+  const picked: typeof candidates = [];
+  for (const candidate of candidates.sort((a, b) => b.score - a.score)) {
+    if (picked.length === count) break;
+    const similar = picked.some(
+      ({ ends }) =>
+        distanceSquared(ends[0], candidate.ends[0]) < SIMILAR_PAIR_DISTANCE ** 2 &&
+        distanceSquared(ends[1], candidate.ends[1]) < SIMILAR_PAIR_DISTANCE ** 2
+    );
+    if (!similar) picked.push(candidate);
+  }
+  return picked.map(({ shadow, highlight, contrast }) => ({ shadow, highlight, contrast }));
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_GRADIENT_STOPS,
+  addGradientStop,
+  createGradientSampler,
+  gradientCss,
+  removeGradientStop,
+  type GradientStop,
+} from "./gradient";
+
+const tritone: GradientStop[] = [
+  { position: 1, color: "#ff0000" },
+  { position: 0, color: "#000000" },
+  { position: 0.5, color: "#ffffff" },
+];
+
+describe("createGradientSampler", () => {
+  it("interpolates between stops regardless of their order", () => {
+    const sample = createGradientSampler(tritone);
+    expect(sample(0)).toEqual({ r: 0, g: 0, b: 0 });
+    expect(sample(0.25)).toEqual({ r: 127.5, g: 127.5, b: 127.5 });
+    expect(sample(0.5)).toEqual({ r: 255, g: 255, b: 255 });
+    expect(sample(0.75)).toEqual({ r: 255, g: 127.5, b: 127.5 });
+    expect(sample(1)).toEqual({ r: 255, g: 0, b: 0 });
+  });
+
+  it("holds the end colors outside the stops", () => {
+    const sample = createGradientSampler([
+      { position: 0.2, color: "#000" },
+      { position: 0.8, color: "#fff" },
+    ]);
+    expect(sample(0.1)).toEqual({ r: 0, g: 0, b: 0 });
+    expect(sample(0.9)).toEqual({ r: 255, g: 255, b: 255 });
+  });
+
+  it("makes a hard edge where two stops share a position", () => {
+    const sample = createGradientSampler([
+      { position: 0, color: "#000" },
+      { position: 0.5, color: "#000" },
+      { position: 0.5, color: "#fff" },
+      { position: 1, color: "#fff" },
+    ]);
+    expect(sample(0.49)).toEqual({ r: 0, g: 0, b: 0 });
+    expect(sample(0.51)).toEqual({ r: 255, g: 255, b: 255 });
+  });
+
+  it("mixes in the chosen space while keeping the stops exact", () => {
+    const stops = tritone.slice(1);
+    const srgb = createGradientSampler(stops)(0.25);
+    const linear = createGradientSampler(stops, "linear")(0.25);
+    const oklab = createGradientSampler(stops, "oklab")(0.25);
+    expect(linear.r).toBeGreaterThan(srgb.r);
+    // Perceptual middle gray: OKLab L = 0.5
+    expect(oklab.r).toBeCloseTo(99, 0);
+    expect(createGradientSampler(stops, "oklab")(0.5).r).toBeCloseTo(255, 3);
+  });
+
+  it("rejects empty gradients and invalid colors", () => {
+    expect(() => createGradientSampler([])).toThrow(RangeError);
+    expect(() => createGradientSampler([{ position: 0, color: "nope" }])).toThrow(RangeError);
+  });
+});
+
+describe("editing stops", () => {
+  it("adds a stop matching the existing color at that position", () => {
+    const stops = addGradientStop(tritone, 0.25);
+    expect(stops).toHaveLength(4);
+    expect(stops[3]).toEqual({ position: 0.25, color: "#808080" });
+  });
+
+  it("stops adding at the maximum", () => {
+    let stops = tritone;
+    for (let i = 0; i < 10; i++) stops = addGradientStop(stops, i / 10);
+    expect(stops).toHaveLength(MAX_GRADIENT_STOPS);
+  });
+
+  it("never removes below two stops", () => {
+    const two = removeGradientStop(tritone, 0);
+    expect(two).toEqual(tritone.slice(1));
+    expect(removeGradientStop(two, 0)).toBe(two);
+  });
+
+  it("approximates other interpolations with extra CSS stops", () => {
+    const css = gradientCss(tritone, "90deg", "oklab");
+    expect(css.startsWith("linear-gradient(90deg, #000000 0.0%, ")).toBe(true);
+    expect(css).toContain("#ffffff 50.0%");
+    expect(css.match(/#/g)).toHaveLength(17);
+  });
+
+  it("renders a sorted CSS gradient", () => {
+    expect(gradientCss(tritone)).toBe(
+      "linear-gradient(90deg, #000000 0.0%, #ffffff 50.0%, #ff0000 100.0%)"
+    );
+  });
+});
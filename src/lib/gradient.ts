@@ -0,0 +1,141 @@
+import { parseHex, toHex, type Rgb } from "./color";
+import {
+  fromMixingSpace,
+  toMixingSpace,
+  type ColorInterpolation,
+} from "./colorspace";
+
+/**
+ * A color pinned at a position (0-1) along the brightness range.
+ */
+export interface GradientStop {
+  position: number;
+  color: string;
+}
+
+export const MIN_GRADIENT_STOPS = 2;
+export const MAX_GRADIENT_STOPS = 8;
+
+/**
+ * Tritone starting point for the gradient map: green shadows, white
+ * midtones, pink highlights.
+ */
+export const DEFAULT_GRADIENT: GradientStop[] = [
+  { position: 0, color: "#165027" },
+  { position: 0.5, color: "#ffffff" },
+  { position: 1, color: "#f99fd2" },
+];
+
+/**
+ * The duotone effect expressed as a two-stop gradient.
+ */
+export const duotoneStops = (colors: { shadow: string; highlight: string }): GradientStop[] => [
+  { position: 0, color: colors.shadow },
+  { position: 1, color: colors.highlight },
+];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Returns a copy of `stops` ordered by position. Editors keep stops in
+ * insertion order so a dragged stop keeps its identity.
+ */
+export const sortStops = (stops: GradientStop[]) =>
+  [...stops].sort((a, b) => a.position - b.position);
+
+/**
+ * Builds a sampler returning the interpolated color at `t` (0-1). Before the
+ * first stop and after the last one the end colors are held.
+ * @param interpolation - The space colors are mixed in; stops come out exact
+ * in every space.
+ * @throws RangeError when there are no stops or a color isn't valid hex.
+ */
+export const createGradientSampler = (
+  stops: GradientStop[],
+  interpolation: ColorInterpolation = "srgb"
+) => {
+  if (stops.length === 0) throw new RangeError("A gradient needs at least one stop");
+  const sorted = sortStops(stops).map((stop) => {
+    const rgb = parseHex(stop.color);
+    return {
+      position: clamp01(stop.position),
+      rgb,
+      mix: toMixingSpace(rgb, interpolation),
+    };
+  });
+
+  return (t: number): Rgb => {
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    if (t <= first.position) return first.rgb;
+    if (t >= last.position) return last.rgb;
+
+    let upper = 1;
+    while (sorted[upper].position < t) upper++;
+    const a = sorted[upper - 1];
+    const b = sorted[upper];
+    const span = b.position - a.position;
+    const f = span > 0 ? (t - a.position) / span : 1;
+    return fromMixingSpace(
+      [
+        a.mix[0] + (b.mix[0] - a.mix[0]) * f,
+        a.mix[1] + (b.mix[1] - a.mix[1]) * f,
+        a.mix[2] + (b.mix[2] - a.mix[2]) * f,
+      ],
+      interpolation
+    );
+  };
+};
+
+/**
+ * Adds a stop at `position` colored like the gradient already is there, so
+ * the look doesn't change until the new stop is edited.
+ * @returns The new stops, unchanged when already at {@link MAX_GRADIENT_STOPS}.
+ */
+export const addGradientStop = (
+  stops: GradientStop[],
+  position: number,
+  interpolation: ColorInterpolation = "srgb"
+) => {
+  if (stops.length >= MAX_GRADIENT_STOPS) return stops;
+  const at = clamp01(position);
+  const color = toHex(createGradientSampler(stops, interpolation)(at));
+  return [...stops, { position: at, color }];
+};
+
+/**
+ * Removes the stop at `index`, never going below {@link MIN_GRADIENT_STOPS}.
+ */
+export const removeGradientStop = (stops: GradientStop[], index: number) =>
+  stops.length <= MIN_GRADIENT_STOPS ? stops : stops.filter((_, i) => i !== index);
+
+// Extra stops per CSS gradient approximating a non-sRGB blend
+const CSS_SAMPLES = 16;
+
+/**
+ * CSS `linear-gradient` matching the stops, for previews and swatches. CSS
+ * blends in sRGB, so other interpolations are approximated with extra stops.
+ */
+export const gradientCss = (
+  stops: GradientStop[],
+  direction = "90deg",
+  interpolation: ColorInterpolation = "srgb"
+) => {
+  const sorted = sortStops(stops);
+  let points = sorted;
+  if (interpolation !== "srgb") {
+    const sample = createGradientSampler(sorted, interpolation);
+    // Keep the real stops, so hard edges stay hard, and fill in between
+    points = sorted.flatMap((stop, i) => {
+      const next = sorted[i + 1];
+      if (!next) return [stop];
+      const between = Array.from({ length: CSS_SAMPLES - 1 }, (_, k) => (k + 1) / CSS_SAMPLES)
+        .filter((position) => position > stop.position && position < next.position)
+        .map((position) => ({ position, color: toHex(sample(position)) }));
+      return [stop, ...between];
+    });
+  }
+  return `linear-gradient(${direction}, ${points
+    .map((stop) => `${stop.color} ${(clamp01(stop.position) * 100).toFixed(1)}%`)
+    .join(", ")})`;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createHistory, pushHistory, redoHistory, undoHistory } from "./history";
+
+const options = { limit: 3, mergeWindow: 100 };
+
+describe("history", () => {
+  it("undoes and redoes changes in order", () => {
+    let history = createHistory("a");
+    history = pushHistory(history, "b", 1000, options);
+    history = pushHistory(history, "c", 2000, options);
+
+    history = undoHistory(history);
+    expect(history.present).toBe("b");
+    history = undoHistory(history);
+    expect(history.present).toBe("a");
+    expect(undoHistory(history)).toBe(history);
+
+    history = redoHistory(redoHistory(history));
+    expect(history.present).toBe("c");
+    expect(redoHistory(history)).toBe(history);
+  });
+
+  it("clears the redo stack on a new change", () => {
+    let history = createHistory(1);
+    history = pushHistory(history, 2, 1000, options);
+    history = pushHistory(undoHistory(history), 3, 2000, options);
+    expect(history.future).toEqual([]);
+    expect(history.past).toEqual([1]);
+  });
+
+  it("merges rapid changes into one step", () => {
+    let history = createHistory(0);
+    history = pushHistory(history, 1, 1000, options);
+    history = pushHistory(history, 2, 1050, options);
+    history = pushHistory(history, 3, 1120, options);
+    expect(history.past).toEqual([0]);
+    expect(history.present).toBe(3);
+  });
+
+  it("never merges into the first change or right after undo", () => {
+    let history = pushHistory(createHistory(0), 1, 0, options);
+    expect(history.past).toEqual([0]);
+
+    history = pushHistory(history, 2, 1000, options);
+    history = pushHistory(undoHistory(history), 5, 1010, options);
+    expect(history.past).toEqual([0, 1]);
+  });
+
+  it("drops the oldest states beyond the limit", () => {
+    let history = createHistory(0);
+    for (let i = 1; i <= 10; i++) history = pushHistory(history, i, i * 1000, options);
+    expect(history.past).toEqual([7, 8, 9]);
+  });
+
+  it("ignores changes to the same value", () => {
+    const history = createHistory({ x: 1 });
+    expect(pushHistory(history, history.present, 1000, options)).toBe(history);
+  });
+});
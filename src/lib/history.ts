@@ -0,0 +1,73 @@
+/**
+ * An undo/redo stack of values. Only the values themselves are stored, so
+ * keep them small (settings, not pixels).
+ */
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  /** Time of the last recorded change, used to merge rapid changes */
+  lastChange: number;
+}
+
+export interface HistoryOptions {
+  /** Oldest states are dropped beyond this many undo steps */
+  limit: number;
+  /** Changes closer together than this (ms) become one undo step */
+  mergeWindow: number;
+}
+
+export const DEFAULT_HISTORY_OPTIONS: HistoryOptions = {
+  limit: 100,
+  mergeWindow: 500,
+};
+
+export const createHistory = <T>(present: T): History<T> => ({
+  past: [],
+  present,
+  future: [],
+  lastChange: -Infinity,
+});
+
+/**
+ * Records `next` as the present state and clears the redo stack. A change
+ * within `mergeWindow` of the previous one replaces it instead, so dragging
+ * a slider is undone in one step.
+ */
+export const pushHistory = <T>(
+  history: History<T>,
+  next: T,
+  now: number,
+  { limit, mergeWindow }: HistoryOptions = DEFAULT_HISTORY_OPTIONS
+): History<T> => {
+  if (Object.is(next, history.present)) return history;
+
+  const merge = history.past.length > 0 && now - history.lastChange < mergeWindow;
+  const past = merge ? history.past : [...history.past, history.present];
+  return {
+    past: past.length > limit ? past.slice(past.length - limit) : past,
+    present: next,
+    future: [],
+    lastChange: now,
+  };
+};
+
+export const undoHistory = <T>(history: History<T>): History<T> => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastChange: -Infinity,
+  };
+};
+
+export const redoHistory = <T>(history: History<T>): History<T> => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastChange: -Infinity,
+  };
+};
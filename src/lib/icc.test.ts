@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { detectColorSpace, profileColorSpace } from "./icc";
+
+const flatten = (parts: (string | number[])[]) =>
+  parts.flatMap((part) =>
+    typeof part === "string" ? Array.from(part, (c) => c.charCodeAt(0)) : part
+  );
+
+const bytes = (...parts: (string | number[])[]) => Uint8Array.from(flatten(parts));
+
+const uint32 = (value: number) => [
+  (value >>> 24) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff,
+];
+
+const s15Fixed16 = (value: number) => uint32(Math.round(value * 65536) >>> 0);
+
+// A profile with a single tag right after the tag table
+const profile = (signature: string, tag: number[]) => {
+  const offset = 132 + 12;
+  return bytes(
+    new Array(128).fill(0),
+    uint32(1),
+    signature,
+    uint32(offset),
+    uint32(tag.length),
+    tag
+  );
+};
+
+const descTag = (name: string) =>
+  flatten(["desc", [0, 0, 0, 0], uint32(name.length + 1), name, [0]]);
+
+const redTag = (x: number, y: number, z: number) =>
+  flatten(["XYZ ", [0, 0, 0, 0], s15Fixed16(x), s15Fixed16(y), s15Fixed16(z)]);
+
+const jpegWithProfile = (icc: Uint8Array) => {
+  const length = 2 + 12 + 2 + icc.length;
+  return bytes(
+    [0xff, 0xd8, 0xff, 0xe2, length >> 8, length & 0xff],
+    "ICC_PROFILE",
+    [0, 1, 1],
+    Array.from(icc),
+    [0xff, 0xda, 0, 2]
+  );
+};
+
+const pngChunk = (type: string, data: number[]) =>
+  flatten([uint32(data.length), type, data, [0, 0, 0, 0]]);
+
+const png = (...chunks: number[][]) =>
+  bytes([0x89], "PNG\r\n\x1a\n", pngChunk("IHDR", new Array(13).fill(0)), ...chunks);
+
+describe("profileColorSpace", () => {
+  it("recognizes Display P3 by name", () => {
+    expect(profileColorSpace(profile("desc", descTag("Display P3")))).toBe("display-p3");
+    expect(profileColorSpace(profile("desc", descTag("sRGB IEC61966-2.1")))).toBe("srgb");
+  });
+
+  it("recognizes Display P3 by its red primary", () => {
+    expect(profileColorSpace(profile("rXYZ", redTag(0.5151, 0.2412, -0.0011)))).toBe(
+      "display-p3"
+    );
+    expect(profileColorSpace(profile("rXYZ", redTag(0.4361, 0.2225, 0.0139)))).toBe("srgb");
+  });
+
+  it("treats tags pointing past their data as sRGB", () => {
+    const shortDesc = profile("desc", flatten(["desc", [0, 0, 0, 0]]));
+    expect(profileColorSpace(shortDesc)).toBe("srgb");
+    const mluc = flatten(["mluc", [0, 0, 0, 0], uint32(1), uint32(12), "enUS", uint32(0xffff), uint32(0xffffff)]);
+    expect(profileColorSpace(profile("desc", mluc))).toBe("srgb");
+    const hugeDesc = profile("desc", flatten(["desc", [0, 0, 0, 0], uint32(0xffffffff), "P3"]));
+    expect(() => profileColorSpace(hugeDesc)).not.toThrow();
+  });
+});
+
+describe("detectColorSpace", () => {
+  it("reads the profile out of a JPEG", () => {
+    const p3 = profile("desc", descTag("Display P3"));
+    expect(detectColorSpace(jpegWithProfile(p3))).toBe("display-p3");
+    expect(detectColorSpace(bytes([0xff, 0xd8, 0xff, 0xda, 0, 2]))).toBe("srgb");
+  });
+
+  it("goes by the cICP code or the profile name in a PNG", () => {
+    expect(detectColorSpace(png(pngChunk("cICP", [12, 13, 0, 1])))).toBe("display-p3");
+    expect(detectColorSpace(png(pngChunk("cICP", [1, 13, 0, 1])))).toBe("srgb");
+    expect(
+      detectColorSpace(png(pngChunk("iCCP", flatten(["Display P3", [0, 0, 0x78]]))))
+    ).toBe("display-p3");
+    expect(detectColorSpace(png(pngChunk("IDAT", [0, 0])))).toBe("srgb");
+  });
+
+  it("never throws on truncated files", () => {
+    const p3 = profile(
+      "desc",
+      flatten(["mluc", [0, 0, 0, 0], uint32(1), uint32(12), "enUS", uint32(4), uint32(28), [0, 0x50, 0, 0x33]])
+    );
+    const jpeg = jpegWithProfile(p3);
+    expect(detectColorSpace(jpeg)).toBe("display-p3");
+    for (let length = 0; length <= jpeg.length; length++) {
+      expect(() => detectColorSpace(jpeg.slice(0, length))).not.toThrow();
+    }
+  });
+
+  it("reads the ICCP chunk of a WebP", () => {
+    const p3 = Array.from(profile("desc", descTag("Display P3")));
+    const size = [p3.length & 0xff, (p3.length >> 8) & 0xff, 0, 0];
+    const webp = bytes("RIFF", [0, 0, 0, 0], "WEBPVP8X", [10, 0, 0, 0], new Array(10).fill(0), "ICCP", size, p3);
+    expect(detectColorSpace(webp)).toBe("display-p3");
+  });
+});
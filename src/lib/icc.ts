@@ -0,0 +1,161 @@
+import type { WorkingColorSpace } from "./colorspace";
+
+/** Bytes to read from the start of a file to find its color profile */
+export const COLOR_PROFILE_SCAN_BYTES = 256 * 1024;
+
+// Display P3's red primary, D50-adapted as stored in ICC profiles
+const P3_RED_XYZ = [0.5151, 0.2412];
+const XYZ_TOLERANCE = 0.005;
+
+// cICP colour primaries code for P3 with a D65 white point
+const CICP_P3_D65 = 12;
+
+// Profile names are short; anything longer is cut rather than spread into
+// a call that could exceed the argument limit
+const MAX_TEXT_LENGTH = 256;
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + Math.min(length, MAX_TEXT_LENGTH)));
+
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+// Profile descriptions come as v2 "desc" (ASCII) or v4 "mluc" (UTF-16).
+// The caller guarantees the tag's `size` bytes are inside the profile.
+const readDescription = (profile: Uint8Array, offset: number, size: number) => {
+  const data = view(profile);
+  const type = ascii(profile, offset, 4);
+  if (type === "desc" && size >= 12) {
+    const length = data.getUint32(offset + 8);
+    return ascii(profile, offset + 12, Math.min(length, size - 12));
+  }
+  // Header, record count and size, then the first record's 12 bytes
+  if (type === "mluc" && size >= 28 && data.getUint32(offset + 8) > 0) {
+    const length = Math.min(data.getUint32(offset + 20), MAX_TEXT_LENGTH * 2);
+    const start = offset + data.getUint32(offset + 24);
+    const end = Math.min(start + length, offset + size);
+    let text = "";
+    for (let at = start; at + 1 < end; at += 2) {
+      text += String.fromCharCode(data.getUint16(at));
+    }
+    return text;
+  }
+  return "";
+};
+
+/**
+ * Works out whether an ICC profile describes Display P3, from its name or
+ * else its red primary. Other profiles count as sRGB: the browser converts
+ * them when decoding, and sRGB is what the canvas works in by default.
+ */
+export const profileColorSpace = (profile: Uint8Array): WorkingColorSpace => {
+  if (profile.length < 132) return "srgb";
+  const data = view(profile);
+  const count = data.getUint32(128);
+  for (let i = 0; i < count; i++) {
+    const entry = 132 + i * 12;
+    if (entry + 12 > profile.length) break;
+    const signature = ascii(profile, entry, 4);
+    const offset = data.getUint32(entry + 4);
+    const size = data.getUint32(entry + 8);
+    if (offset + size > profile.length) continue;
+    if (signature === "desc" && /\bP3\b/i.test(readDescription(profile, offset, size))) {
+      return "display-p3";
+    }
+    if (signature === "rXYZ" && size >= 20) {
+      const x = data.getInt32(offset + 8) / 65536;
+      const y = data.getInt32(offset + 12) / 65536;
+      if (
+        Math.abs(x - P3_RED_XYZ[0]) < XYZ_TOLERANCE &&
+        Math.abs(y - P3_RED_XYZ[1]) < XYZ_TOLERANCE
+      ) {
+        return "display-p3";
+      }
+    }
+  }
+  return "srgb";
+};
+
+// JPEG splits profiles over APP2 segments tagged "ICC_PROFILE"
+const jpegProfile = (bytes: Uint8Array) => {
+  const data = view(bytes);
+  const chunks: { sequence: number; data: Uint8Array }[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: no more metadata after this
+    if (marker === 0xda) break;
+    const length = data.getUint16(offset + 2);
+    if (
+      marker === 0xe2 &&
+      offset + 18 <= bytes.length &&
+      ascii(bytes, offset + 4, 11) === "ICC_PROFILE"
+    ) {
+      chunks.push({
+        sequence: bytes[offset + 16],
+        data: bytes.subarray(offset + 18, offset + 2 + length),
+      });
+    }
+    offset += 2 + length;
+  }
+  if (!chunks.length) return null;
+  chunks.sort((a, b) => a.sequence - b.sequence);
+  const profile = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.data.length, 0));
+  let at = 0;
+  for (const chunk of chunks) {
+    profile.set(chunk.data, at);
+    at += chunk.data.length;
+  }
+  return profile;
+};
+
+// PNG profiles are deflated, so go by the cICP code or the profile's name
+const pngColorSpace = (bytes: Uint8Array): WorkingColorSpace => {
+  const data = view(bytes);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = data.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === "IDAT" || type === "IEND") break;
+    if (type === "cICP") {
+      return bytes[offset + 8] === CICP_P3_D65 ? "display-p3" : "srgb";
+    }
+    if (type === "iCCP") {
+      const name = ascii(bytes, offset + 8, Math.min(length, 79)).split("\0")[0];
+      return /\bP3\b/i.test(name) ? "display-p3" : "srgb";
+    }
+    offset += 12 + length;
+  }
+  return "srgb";
+};
+
+const webpProfile = (bytes: Uint8Array) => {
+  const data = view(bytes);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = data.getUint32(offset + 4, true);
+    if (ascii(bytes, offset, 4) === "ICCP") {
+      return bytes.subarray(offset + 8, offset + 8 + size);
+    }
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+};
+
+/**
+ * Reads the color space a JPEG, PNG or WebP file declares. Untagged files
+ * are sRGB, as browsers assume.
+ * @param bytes - The start of the file, see {@link COLOR_PROFILE_SCAN_BYTES}.
+ */
+export const detectColorSpace = (bytes: Uint8Array): WorkingColorSpace => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const profile = jpegProfile(bytes);
+    return profile ? profileColorSpace(profile) : "srgb";
+  }
+  if (ascii(bytes, 1, 3) === "PNG") return pngColorSpace(bytes);
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") {
+    const profile = webpProfile(bytes);
+    return profile ? profileColorSpace(profile) : "srgb";
+  }
+  return "srgb";
+};
@@ -0,0 +1,153 @@
+export {
+  ANIMATION_MAX_DIMENSION,
+  MAX_ANIMATION_FRAMES,
+  MAX_CLIP_SECONDS,
+  frameDelay,
+  isAnimatedImage,
+} from "./animation";
+export { isValidHex, parseHex, toHex, type Rgb } from "./color";
+export {
+  COLOR_INTERPOLATIONS,
+  fromMixingSpace,
+  oklabToRgb,
+  rgbToOklab,
+  srgbToDisplayP3,
+  toMixingSpace,
+  type ColorInterpolation,
+  type WorkingColorSpace,
+} from "./colorspace";
+export {
+  CROP_ASPECTS,
+  DEFAULT_CROP,
+  FULL_CROP_RECT,
+  MIN_CROP_SIZE,
+  applyCropTransform,
+  centeredCropRect,
+  cropRegion,
+  flipCrop,
+  isCropActive,
+  moveCropRect,
+  orientedSize,
+  relativeRatio,
+  resizeCropRect,
+  rotateCrop,
+  setCropAspect,
+  type CropAspect,
+  type CropContext,
+  type CropHandle,
+  type CropRect,
+  type CropRotation,
+  type CropSettings,
+} from "./crop";
+export {
+  DEFAULT_EFFECT_SETTINGS,
+  EFFECT_MODES,
+  applyEffect,
+  applyEffectToPixels,
+  buildEffectLut,
+  type ClassicParams,
+  type DuotoneColors,
+  type EffectMode,
+  type EffectSettings,
+  type ImageDataLike,
+} from "./effect";
+export {
+  EXTRACTED_COLORS,
+  MIN_PAIR_CONTRAST,
+  SUGGESTED_PAIRS,
+  contrastRatio,
+  extractColors,
+  suggestDuotonePairs,
+  type ColorCluster,
+  type DuotonePair,
+} from "./extract";
+export {
+  DEFAULT_GRADIENT,
+  MAX_GRADIENT_STOPS,
+  MIN_GRADIENT_STOPS,
+  addGradientStop,
+  createGradientSampler,
+  duotoneStops,
+  gradientCss,
+  removeGradientStop,
+  sortStops,
+  type GradientStop,
+} from "./gradient";
+export {
+  DEFAULT_HISTORY_OPTIONS,
+  createHistory,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+  type History,
+  type HistoryOptions,
+} from "./history";
+export {
+  COLOR_PROFILE_SCAN_BYTES,
+  detectColorSpace,
+  profileColorSpace,
+} from "./icc";
+export {
+  LUMA_WEIGHTS,
+  LUMINANCE_FORMULAS,
+  createLuminance,
+  linearToSrgb,
+  srgbToLinear,
+  type LuminanceFormula,
+} from "./luminance";
+export {
+  DEFAULT_MASK,
+  compositeMasked,
+  coverageRows,
+  drawMaskShapes,
+  featherMask,
+  isMaskActive,
+  renderMask,
+  type Coverage,
+  type MaskContext,
+  type MaskSettings,
+  type MaskShape,
+} from "./mask";
+export {
+  CVD_SAFE_CONTRAST,
+  PALETTES,
+  cvdContrast,
+  isColorBlindSafe,
+  simulateCvd,
+  type ColorVisionDeficiency,
+  type Palette,
+} from "./palettes";
+export {
+  DEFAULT_POSTER,
+  POSTER_FRAMES,
+  isPosterActive,
+  placeImage,
+  posterSize,
+  type Poster,
+  type PosterFit,
+  type PosterFrame,
+  type PosterLayer,
+} from "./poster";
+export {
+  BUILT_IN_PRESETS,
+  PresetError,
+  decodeSettingsHash,
+  encodeSettingsHash,
+  parseEffectSettings,
+  parsePreset,
+  parsePresetFile,
+  serializePresets,
+  settingsEqual,
+  type Preset,
+} from "./presets";
+export {
+  STRIP_PIXELS,
+  fitArea,
+  imageStrips,
+  type Strip,
+} from "./tiles";
+export {
+  DEFAULT_TONE_SETTINGS,
+  buildToneCurve,
+  type ToneSettings,
+} from "./tone";
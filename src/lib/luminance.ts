@@ -0,0 +1,48 @@
+/**
+ * How a pixel's RGB values are collapsed into a single brightness value.
+ * - average: plain (r + g + b) / 3, the original behaviour
+ * - rec709: HDTV/sRGB luma weights applied to the encoded values
+ * - rec601: SDTV luma weights applied to the encoded values
+ * - linear: Rec. 709 luminance computed in linear light, re-encoded to sRGB
+ */
+export type LuminanceFormula = "average" | "rec709" | "rec601" | "linear";
+
+export const LUMINANCE_FORMULAS: { value: LuminanceFormula; label: string }[] = [
+  { value: "average", label: "Average (original)" },
+  { value: "rec709", label: "Rec. 709" },
+  { value: "rec601", label: "Rec. 601" },
+  { value: "linear", label: "Linear light" },
+];
+
+export const LUMA_WEIGHTS: Record<Exclude<LuminanceFormula, "linear">, [number, number, number]> = {
+  average: [1 / 3, 1 / 3, 1 / 3],
+  rec709: [0.2126, 0.7152, 0.0722],
+  rec601: [0.299, 0.587, 0.114],
+};
+
+export const srgbToLinear = (c: number) =>
+  c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+
+export const linearToSrgb = (c: number) =>
+  c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+
+// 8-bit sRGB value -> linear light, shared by every "linear" lookup
+const SRGB_TO_LINEAR = Array.from({ length: 256 }, (_, i) => srgbToLinear(i / 255));
+
+/**
+ * Returns a function computing 0-255 brightness for an RGB triple.
+ */
+export const createLuminance = (formula: LuminanceFormula) => {
+  if (formula === "linear") {
+    return (r: number, g: number, b: number) => {
+      const y =
+        0.2126 * SRGB_TO_LINEAR[r] +
+        0.7152 * SRGB_TO_LINEAR[g] +
+        0.0722 * SRGB_TO_LINEAR[b];
+      return linearToSrgb(y) * 255;
+    };
+  }
+
+  const [wr, wg, wb] = LUMA_WEIGHTS[formula];
+  return (r: number, g: number, b: number) => wr * r + wg * g + wb * b;
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  compositeMasked,
+  coverageRows,
+  featherMask,
+  isMaskActive,
+  DEFAULT_MASK,
+} from "./mask";
+
+describe("isMaskActive", () => {
+  it("treats a mask without shapes as no mask", () => {
+    expect(isMaskActive(null)).toBe(false);
+    expect(isMaskActive({ ...DEFAULT_MASK, invert: true })).toBe(false);
+    expect(
+      isMaskActive({
+        ...DEFAULT_MASK,
+        shapes: [{ kind: "rect", x: 0, y: 0, width: 1, height: 1, erase: false }],
+      })
+    ).toBe(true);
+  });
+});
+
+describe("featherMask", () => {
+  // 9x1 strip, left half covered
+  const edge = Uint8ClampedArray.from([255, 255, 255, 255, 0, 0, 0, 0, 0]);
+
+  it("returns an untouched copy for radii under one pixel", () => {
+    const result = featherMask(edge, 9, 1, 1);
+    expect(result).toEqual(edge);
+    expect(result).not.toBe(edge);
+  });
+
+  it("ramps hard edges down monotonically", () => {
+    const result = Array.from(featherMask(edge, 9, 1, 6));
+    expect(result[0]).toBeGreaterThan(result[3]);
+    expect(result[3]).toBeGreaterThan(result[5]);
+    expect(result[5]).toBeGreaterThan(result[8]);
+    for (let i = 1; i < result.length; i++) {
+      expect(result[i]).toBeLessThanOrEqual(result[i - 1]);
+    }
+  });
+
+  it("keeps uniform areas unchanged", () => {
+    const full = new Uint8ClampedArray(25).fill(255);
+    expect(Array.from(featherMask(full, 5, 5, 6))).toEqual(Array(25).fill(255));
+  });
+
+  it("blurs in both directions", () => {
+    const dot = new Uint8ClampedArray(49);
+    dot[24] = 255;
+    const result = featherMask(dot, 7, 7, 3);
+    expect(result[24 - 7]).toBeGreaterThan(0);
+    expect(result[24 + 1]).toBeGreaterThan(0);
+    expect(result[24 - 7]).toBe(result[24 + 1]);
+  });
+});
+
+describe("compositeMasked", () => {
+  it("blends by coverage and leaves alpha alone", () => {
+    const original = Uint8ClampedArray.from([0, 0, 0, 10, 0, 0, 0, 20, 200, 100, 0, 30]);
+    const processed = Uint8ClampedArray.from([
+      255, 255, 255, 10, 255, 255, 255, 20, 0, 0, 200, 30,
+    ]);
+    compositeMasked(original, processed, Uint8ClampedArray.from([255, 0, 128]));
+
+    expect(Array.from(processed.subarray(0, 4))).toEqual([255, 255, 255, 10]);
+    expect(Array.from(processed.subarray(4, 8))).toEqual([0, 0, 0, 20]);
+    expect(Array.from(processed.subarray(8))).toEqual([100, 50, 100, 30]);
+  });
+
+  it("rejects mismatched sizes", () => {
+    const pixels = new Uint8ClampedArray(8);
+    expect(() => compositeMasked(pixels, pixels, new Uint8ClampedArray(3))).toThrow(
+      RangeError
+    );
+  });
+});
+
+describe("coverageRows", () => {
+  it("slices rows straight out of full-size coverage", () => {
+    const data = Uint8ClampedArray.from([1, 2, 3, 4, 5, 6]);
+    const rows = coverageRows({ data, width: 2, height: 3 }, 2, 3, 1, 2);
+    expect(Array.from(rows)).toEqual([3, 4, 5, 6]);
+  });
+
+  it("scales smaller coverage up bilinearly", () => {
+    const data = Uint8ClampedArray.from([0, 255]);
+    const rows = coverageRows({ data, width: 2, height: 1 }, 4, 2, 1, 1);
+    expect(Array.from(rows)).toEqual([0, 64, 191, 255]);
+  });
+});
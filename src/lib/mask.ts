@@ -0,0 +1,288 @@
+/**
+ * A shape on the mask. Coordinates and sizes are fractions of the image's
+ * width, height or longer edge, so one mask fits the preview and the
+ * full-resolution export alike. Erasing shapes cut holes into earlier ones.
+ */
+export type MaskShape =
+  | {
+      kind: "stroke";
+      /** Flattened x, y pairs */
+      points: number[];
+      /** Brush diameter as a fraction of the longer edge */
+      size: number;
+      erase: boolean;
+    }
+  | {
+      kind: "rect" | "ellipse";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      erase: boolean;
+    };
+
+/**
+ * Limits the effect to part of the image. The shapes are kept, not pixels,
+ * so every shape stays editable and feather/invert can change at any time.
+ */
+export interface MaskSettings {
+  shapes: MaskShape[];
+  /** Blur radius of the mask edge as a fraction of the longer edge */
+  feather: number;
+  /** Apply the effect outside the shapes instead of inside */
+  invert: boolean;
+}
+
+export const DEFAULT_MASK: MaskSettings = {
+  shapes: [],
+  feather: 0.01,
+  invert: false,
+};
+
+/**
+ * An empty mask means "no mask": the effect covers the whole image.
+ */
+export const isMaskActive = (mask: MaskSettings | null | undefined): mask is MaskSettings =>
+  !!mask && mask.shapes.length > 0;
+
+/**
+ * The parts of a 2D canvas context the mask is drawn with. Both
+ * `CanvasRenderingContext2D` and `OffscreenCanvasRenderingContext2D` fit.
+ */
+export interface MaskContext {
+  globalCompositeOperation: string;
+  fillStyle: unknown;
+  strokeStyle: unknown;
+  lineWidth: number;
+  lineCap: string;
+  lineJoin: string;
+  clearRect(x: number, y: number, width: number, height: number): void;
+  beginPath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  arc(x: number, y: number, radius: number, start: number, end: number): void;
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    start: number,
+    end: number
+  ): void;
+  rect(x: number, y: number, width: number, height: number): void;
+  fill(): void;
+  stroke(): void;
+  getImageData(x: number, y: number, width: number, height: number): { data: Uint8ClampedArray };
+}
+
+/**
+ * Draws the shapes opaque onto a transparent `width` x `height` context.
+ */
+export const drawMaskShapes = (
+  ctx: MaskContext,
+  shapes: MaskShape[],
+  width: number,
+  height: number
+) => {
+  const longest = Math.max(width, height);
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = "#fff";
+  ctx.strokeStyle = "#fff";
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  for (const shape of shapes) {
+    ctx.globalCompositeOperation = shape.erase ? "destination-out" : "source-over";
+    ctx.beginPath();
+
+    if (shape.kind === "stroke") {
+      const size = shape.size * longest;
+      const { points } = shape;
+      if (points.length === 2) {
+        // A single dab
+        ctx.arc(points[0] * width, points[1] * height, size / 2, 0, Math.PI * 2);
+        ctx.fill();
+        continue;
+      }
+      ctx.lineWidth = size;
+      ctx.moveTo(points[0] * width, points[1] * height);
+      for (let i = 2; i < points.length; i += 2) {
+        ctx.lineTo(points[i] * width, points[i + 1] * height);
+      }
+      ctx.stroke();
+      continue;
+    }
+
+    const x = Math.min(shape.x, shape.x + shape.width) * width;
+    const y = Math.min(shape.y, shape.y + shape.height) * height;
+    const w = Math.abs(shape.width) * width;
+    const h = Math.abs(shape.height) * height;
+    if (shape.kind === "rect") {
+      ctx.rect(x, y, w, h);
+    } else {
+      ctx.ellipse(x + w / 2, y + h / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+    }
+    ctx.fill();
+  }
+
+  ctx.globalCompositeOperation = "source-over";
+};
+
+// One horizontal then vertical box blur pass over a single channel
+const boxBlur = (
+  source: Float32Array,
+  target: Float32Array,
+  width: number,
+  height: number,
+  radius: number
+) => {
+  const span = radius * 2 + 1;
+  const row = new Float32Array(width);
+
+  for (let y = 0; y < height; y++) {
+    const offset = y * width;
+    let sum = 0;
+    for (let x = -radius; x <= radius; x++) {
+      sum += source[offset + Math.min(width - 1, Math.max(0, x))];
+    }
+    for (let x = 0; x < width; x++) {
+      row[x] = sum / span;
+      sum +=
+        source[offset + Math.min(width - 1, x + radius + 1)] -
+        source[offset + Math.max(0, x - radius)];
+    }
+    target.set(row, offset);
+  }
+
+  const column = new Float32Array(height);
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = -radius; y <= radius; y++) {
+      sum += target[Math.min(height - 1, Math.max(0, y)) * width + x];
+    }
+    for (let y = 0; y < height; y++) {
+      column[y] = sum / span;
+      sum +=
+        target[Math.min(height - 1, y + radius + 1) * width + x] -
+        target[Math.max(0, y - radius) * width + x];
+    }
+    for (let y = 0; y < height; y++) target[y * width + x] = column[y];
+  }
+};
+
+/**
+ * Softens mask edges. Three box blurs approximate a Gaussian of the given
+ * radius while staying linear in the radius.
+ * @returns A new coverage array, 0-255 per pixel.
+ */
+export const featherMask = (
+  coverage: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number
+): Uint8ClampedArray => {
+  const box = Math.round(radius / 3);
+  if (box < 1) return coverage.slice();
+
+  let a = Float32Array.from(coverage);
+  let b = new Float32Array(coverage.length);
+  for (let pass = 0; pass < 3; pass++) {
+    boxBlur(a, b, width, height, box);
+    [a, b] = [b, a];
+  }
+  return Uint8ClampedArray.from(a);
+};
+
+/**
+ * Rasterizes `mask` at `width` x `height`, feathered and inverted as set.
+ * @param ctx - A scratch context at least `width` x `height` in size.
+ * @returns Effect coverage per pixel, 0 (original) to 255 (full effect).
+ */
+export const renderMask = (
+  ctx: MaskContext,
+  mask: MaskSettings,
+  width: number,
+  height: number
+): Uint8ClampedArray => {
+  drawMaskShapes(ctx, mask.shapes, width, height);
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const coverage = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < coverage.length; i++) coverage[i] = rgba[i * 4 + 3];
+
+  const feathered = featherMask(
+    coverage,
+    width,
+    height,
+    mask.feather * Math.max(width, height)
+  );
+  if (mask.invert) {
+    for (let i = 0; i < feathered.length; i++) feathered[i] = 255 - feathered[i];
+  }
+  return feathered;
+};
+
+/** Effect coverage rendered by `renderMask`, with the size it was rendered at */
+export interface Coverage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * Coverage for `rows` rows from `y` of a `width` x `height` image. Masks for
+ * very large images are rendered smaller and scaled up bilinearly here,
+ * one strip at a time.
+ */
+export const coverageRows = (
+  coverage: Coverage,
+  width: number,
+  height: number,
+  y: number,
+  rows: number
+): Uint8ClampedArray => {
+  const { data, width: cw, height: ch } = coverage;
+  if (cw === width && ch === height) return data.subarray(y * width, (y + rows) * width);
+
+  const out = new Uint8ClampedArray(width * rows);
+  const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+  for (let row = 0; row < rows; row++) {
+    const fy = clamp((y + row + 0.5) * (ch / height) - 0.5, ch - 1);
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(ch - 1, y0 + 1);
+    const ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = clamp((x + 0.5) * (cw / width) - 0.5, cw - 1);
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(cw - 1, x0 + 1);
+      const tx = fx - x0;
+      const top = data[y0 * cw + x0] + (data[y0 * cw + x1] - data[y0 * cw + x0]) * tx;
+      const bottom = data[y1 * cw + x0] + (data[y1 * cw + x1] - data[y1 * cw + x0]) * tx;
+      out[row * width + x] = top + (bottom - top) * ty;
+    }
+  }
+  return out;
+};
+
+/**
+ * Blends the processed pixels back toward the original through the mask.
+ * Works in place on `processed`; alpha stays as it is.
+ * @throws RangeError when the buffers don't describe the same image.
+ */
+export const compositeMasked = (
+  original: Uint8ClampedArray,
+  processed: Uint8ClampedArray,
+  coverage: Uint8ClampedArray
+) => {
+  if (original.length !== processed.length || coverage.length * 4 !== processed.length) {
+    throw new RangeError("Mask and image sizes don't match");
+  }
+  for (let p = 0, i = 0; p < coverage.length; p++, i += 4) {
+    const amount = coverage[p] / 255;
+    if (amount === 1) continue;
+    processed[i] = original[i] + (processed[i] - original[i]) * amount;
+    processed[i + 1] = original[i + 1] + (processed[i + 1] - original[i + 1]) * amount;
+    processed[i + 2] = original[i + 2] + (processed[i + 2] - original[i + 2]) * amount;
+  }
+  return processed;
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { PALETTES, cvdContrast, isColorBlindSafe, simulateCvd } from "./palettes";
+
+describe("simulateCvd", () => {
+  it("leaves grays alone", () => {
+    for (const deficiency of ["protanopia", "deuteranopia"] as const) {
+      const gray = simulateCvd({ r: 128, g: 128, b: 128 }, deficiency);
+      expect(gray.r).toBeCloseTo(128, 0);
+      expect(gray.g).toBeCloseTo(128, 0);
+      expect(gray.b).toBeCloseTo(128, 0);
+    }
+  });
+
+  it("makes red and green hard to tell apart", () => {
+    const red = simulateCvd({ r: 255, g: 0, b: 0 }, "deuteranopia");
+    const green = simulateCvd({ r: 0, g: 128, b: 0 }, "deuteranopia");
+    expect(Math.abs(red.r - green.r)).toBeLessThan(60);
+    expect(Math.abs(red.g - green.g)).toBeLessThan(60);
+  });
+});
+
+describe("cvdContrast", () => {
+  it("takes the lowest contrast across normal and simulated vision", () => {
+    // Protanopia darkens the pink highlight below its normal 4.94:1
+    expect(cvdContrast("#165027", "#f99fd2")).toBe(4.28);
+    // Here deuteranopia is the weakest
+    expect(cvdContrast("#4a0d2e", "#9ad0ec")).toBe(8.29);
+    expect(cvdContrast("#000000", "#ffffff")).toBe(21);
+  });
+});
+
+describe("PALETTES", () => {
+  it("flags only the original pair as unsafe", () => {
+    expect(PALETTES.filter((palette) => !isColorBlindSafe(palette)).map((p) => p.name)).toEqual([
+      "Brave Pink Hero Green",
+    ]);
+  });
+});
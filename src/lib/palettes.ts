@@ -0,0 +1,94 @@
+import { parseHex, type Rgb } from "./color";
+import { contrastRatio } from "./extract";
+import { linearToSrgb, srgbToLinear } from "./luminance";
+
+/**
+ * A named shadow/highlight pair for the duotone effect.
+ */
+export interface Palette {
+  name: string;
+  shadow: string;
+  highlight: string;
+  /**
+   * Lowest WCAG contrast ratio between the two colors across normal vision,
+   * simulated protanopia and simulated deuteranopia (Machado et al. 2009,
+   * full severity). Pairs at 4.5 or above stay distinguishable for
+   * red-green color-blind viewers.
+   */
+  cvdContrast: number;
+}
+
+/**
+ * Minimum contrast for a palette to be listed as color-blind safe.
+ */
+export const CVD_SAFE_CONTRAST = 4.5;
+
+/** Color vision deficiencies the palettes are checked against */
+export type ColorVisionDeficiency = "protanopia" | "deuteranopia";
+
+// Machado, Oliveira & Fernandes 2009, severity 1.0, applied in linear light
+const CVD_MATRICES: Record<ColorVisionDeficiency, number[][]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * How `color` looks to someone with full protanopia or deuteranopia.
+ */
+export const simulateCvd = (color: Rgb, deficiency: ColorVisionDeficiency): Rgb => {
+  const linear = [color.r, color.g, color.b].map((c) => srgbToLinear(c / 255));
+  const [r, g, b] = CVD_MATRICES[deficiency].map((row) =>
+    clamp01(row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2])
+  );
+  return { r: linearToSrgb(r) * 255, g: linearToSrgb(g) * 255, b: linearToSrgb(b) * 255 };
+};
+
+/**
+ * Lowest contrast ratio between two colors across normal vision and both
+ * simulated deficiencies, rounded to two decimals.
+ */
+export const cvdContrast = (shadow: string, highlight: string) => {
+  const a = parseHex(shadow);
+  const b = parseHex(highlight);
+  const ratios = [
+    contrastRatio(a, b),
+    ...(Object.keys(CVD_MATRICES) as ColorVisionDeficiency[]).map((deficiency) =>
+      contrastRatio(simulateCvd(a, deficiency), simulateCvd(b, deficiency))
+    ),
+  ];
+  return Math.round(Math.min(...ratios) * 100) / 100;
+};
+
+const palette = (name: string, shadow: string, highlight: string): Palette => ({
+  name,
+  shadow,
+  highlight,
+  cvdContrast: cvdContrast(shadow, highlight),
+});
+
+/**
+ * Built-in palettes. The first entry is the original brand look.
+ */
+export const PALETTES: Palette[] = [
+  palette("Brave Pink Hero Green", "#165027", "#f99fd2"),
+  palette("Deep Hero Green", "#0b3318", "#f99fd2"),
+  palette("Midnight Marigold", "#1b1b3a", "#ffd166"),
+  palette("Navy Sunflower", "#0d3b66", "#f4d35e"),
+  palette("Plum Peach", "#2d1e4f", "#f7c59f"),
+  palette("Wine Sky", "#4a0d2e", "#9ad0ec"),
+  palette("Solarized", "#002b36", "#eee8d5"),
+  palette("Ink & Paper", "#1a1a1a", "#f5f5f5"),
+];
+
+export const isColorBlindSafe = (palette: Palette) =>
+  palette.cvdContrast >= CVD_SAFE_CONTRAST;
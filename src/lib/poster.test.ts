@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_POSTER, isPosterActive, placeImage, posterSize } from "./poster";
+
+describe("isPosterActive", () => {
+  it("is off for the default layout", () => {
+    expect(isPosterActive(DEFAULT_POSTER)).toBe(false);
+  });
+
+  it("turns on with a frame or a layer", () => {
+    expect(isPosterActive({ ...DEFAULT_POSTER, frame: "1:1" })).toBe(true);
+    expect(
+      isPosterActive({
+        ...DEFAULT_POSTER,
+        layers: [{ kind: "logo", id: 1, x: 0.5, y: 0.5, src: "logo.svg", width: 0.2 }],
+      })
+    ).toBe(true);
+  });
+});
+
+describe("posterSize", () => {
+  it("keeps the photo size for the original frame", () => {
+    expect(posterSize(1200, 800, "original")).toEqual({ width: 1200, height: 800 });
+  });
+
+  it("crops the wider side without upscaling", () => {
+    expect(posterSize(1200, 800, "1:1")).toEqual({ width: 800, height: 800 });
+    expect(posterSize(1080, 1080, "9:16")).toEqual({ width: 608, height: 1080 });
+    expect(posterSize(800, 2000, "4:5")).toEqual({ width: 800, height: 1000 });
+  });
+});
+
+describe("placeImage", () => {
+  it("overflows one axis when covering", () => {
+    expect(placeImage(200, 100, 100, 100, "cover")).toEqual({
+      x: -50,
+      y: 0,
+      width: 200,
+      height: 100,
+    });
+  });
+
+  it("letterboxes when containing", () => {
+    expect(placeImage(200, 100, 100, 100, "contain")).toEqual({
+      x: 0,
+      y: 25,
+      width: 100,
+      height: 50,
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Output shape of a poster. "original" keeps the photo's own proportions.
+ */
+export type PosterFrame = "original" | "1:1" | "4:5" | "9:16";
+
+export const POSTER_FRAMES: { value: PosterFrame; label: string; ratio: number | null }[] = [
+  { value: "original", label: "Original", ratio: null },
+  { value: "1:1", label: "1:1", ratio: 1 },
+  { value: "4:5", label: "4:5", ratio: 4 / 5 },
+  { value: "9:16", label: "9:16", ratio: 9 / 16 },
+];
+
+/** "cover" crops the photo to fill the frame, "contain" letterboxes it */
+export type PosterFit = "cover" | "contain";
+
+/**
+ * A layer placed on top of the photo. Positions are the layer's center as a
+ * fraction of the frame, so a layout survives any output size.
+ */
+export type PosterLayer =
+  | {
+      kind: "text";
+      id: number;
+      x: number;
+      y: number;
+      text: string;
+      /** Line height as a fraction of the frame height */
+      size: number;
+      color: string;
+      bold: boolean;
+    }
+  | {
+      kind: "logo";
+      id: number;
+      x: number;
+      y: number;
+      /** Object URL of the uploaded image */
+      src: string;
+      /** Width as a fraction of the frame width */
+      width: number;
+    };
+
+export interface Poster {
+  frame: PosterFrame;
+  fit: PosterFit;
+  /**
+   * Fill behind the photo, seen where it is letterboxed or transparent.
+   * null keeps those areas transparent where the format allows it.
+   */
+  background: string | null;
+  layers: PosterLayer[];
+}
+
+export const DEFAULT_POSTER: Poster = {
+  frame: "original",
+  fit: "cover",
+  background: null,
+  layers: [],
+};
+
+/**
+ * Whether the poster changes the export at all.
+ */
+export const isPosterActive = (poster: Poster) =>
+  poster.frame !== "original" || poster.layers.length > 0;
+
+/**
+ * Output size for a photo in `frame`. The frame is as large as possible
+ * without upscaling the photo along its cropped side.
+ */
+export const posterSize = (imageWidth: number, imageHeight: number, frame: PosterFrame) => {
+  const ratio = POSTER_FRAMES.find((f) => f.value === frame)?.ratio ?? null;
+  if (!ratio) return { width: imageWidth, height: imageHeight };
+  return imageWidth / imageHeight > ratio
+    ? { width: Math.max(1, Math.round(imageHeight * ratio)), height: imageHeight }
+    : { width: imageWidth, height: Math.max(1, Math.round(imageWidth / ratio)) };
+};
+
+/**
+ * Where the photo lands inside a `frameWidth` x `frameHeight` frame,
+ * centered. With "cover" the rectangle overflows the frame on one axis.
+ */
+export const placeImage = (
+  imageWidth: number,
+  imageHeight: number,
+  frameWidth: number,
+  frameHeight: number,
+  fit: PosterFit
+) => {
+  const scaleX = frameWidth / imageWidth;
+  const scaleY = frameHeight / imageHeight;
+  const scale = fit === "cover" ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+  return {
+    x: (frameWidth - width) / 2,
+    y: (frameHeight - height) / 2,
+    width,
+    height,
+  };
+};
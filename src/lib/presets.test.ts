@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EFFECT_SETTINGS, type EffectSettings } from "./effect";
+import {
+  PresetError,
+  decodeSettingsHash,
+  encodeSettingsHash,
+  parseEffectSettings,
+  parsePresetFile,
+  serializePresets,
+  settingsEqual,
+} from "./presets";
+
+const custom: EffectSettings = {
+  ...DEFAULT_EFFECT_SETTINGS,
+  colors: { shadow: "#2d1e4f", highlight: "#f7c59f" },
+  tone: { ...DEFAULT_EFFECT_SETTINGS.tone, gamma: 1.4, luminance: "linear" },
+};
+
+describe("parseEffectSettings", () => {
+  it("fills missing fields with defaults", () => {
+    expect(parseEffectSettings({})).toEqual(DEFAULT_EFFECT_SETTINGS);
+    expect(parseEffectSettings({ colors: { shadow: "#000" } }).colors).toEqual({
+      shadow: "#000000",
+      highlight: DEFAULT_EFFECT_SETTINGS.colors.highlight,
+    });
+  });
+
+  it("keeps the original average luminance for presets saved without one", () => {
+    expect(parseEffectSettings({ tone: { gamma: 1.2 } }).tone.luminance).toBe("average");
+  });
+
+  it("drops unknown fields such as image data", () => {
+    const parsed = parseEffectSettings({ ...custom, image: "data:image/png;base64,AAAA" });
+    expect(parsed).toEqual(custom);
+    expect(parsed).not.toHaveProperty("image");
+  });
+
+  it.each([
+    ["a non-object", "duotone"],
+    ["an unknown mode", { mode: "sepia" }],
+    ["an invalid color", { colors: { highlight: "pink" } }],
+    ["an out-of-range multiplier", { classic: { redMultiplier: 99 } }],
+    ["a non-numeric gamma", { tone: { gamma: "2" } }],
+    ["crossed levels", { tone: { blackPoint: 200, whitePoint: 100 } }],
+    ["a one-stop gradient", { gradient: [{ position: 0, color: "#000" }] }],
+    ["a stop without a position", { gradient: [{ color: "#000" }, { position: 1, color: "#fff" }] }],
+    ["a stop out of range", { gradient: [{ position: 0, color: "#000" }, { position: 2, color: "#fff" }] }],
+  ])("rejects %s", (_, value) => {
+    expect(() => parseEffectSettings(value)).toThrow(PresetError);
+  });
+});
+
+describe("preset files", () => {
+  it("round-trips through serializePresets", () => {
+    const presets = [{ name: "Plum", settings: custom }];
+    expect(parsePresetFile(serializePresets(presets))).toEqual(presets);
+  });
+
+  it("accepts a bare preset or an array", () => {
+    const preset = { name: " Plum ", settings: custom };
+    expect(parsePresetFile(JSON.stringify(preset))).toEqual([{ ...preset, name: "Plum" }]);
+    expect(parsePresetFile(JSON.stringify([preset, preset]))).toHaveLength(2);
+  });
+
+  it.each([
+    ["invalid JSON", "{"],
+    ["an empty list", "[]"],
+    ["a nameless preset", JSON.stringify([{ settings: {} }])],
+    ["a newer file version", JSON.stringify({ version: 99, presets: [] })],
+    ["bad settings", JSON.stringify([{ name: "x", settings: { mode: 1 } }])],
+  ])("rejects %s", (_, text) => {
+    expect(() => parsePresetFile(text)).toThrow(PresetError);
+  });
+});
+
+describe("settings hash", () => {
+  it("round-trips settings", () => {
+    const hash = encodeSettingsHash(custom);
+    expect(hash).toMatch(/^#look=[\w-]+$/);
+    expect(decodeSettingsHash(hash)).toEqual(custom);
+  });
+
+  it("ignores hashes without valid settings", () => {
+    expect(decodeSettingsHash("")).toBeNull();
+    expect(decodeSettingsHash("#section-2")).toBeNull();
+    expect(decodeSettingsHash("#look=not-base64!")).toBeNull();
+    expect(decodeSettingsHash(`#look=${btoa('{"mode":"sepia"}')}`)).toBeNull();
+  });
+});
+
+describe("settingsEqual", () => {
+  it("compares by value", () => {
+    expect(settingsEqual(custom, structuredClone(custom))).toBe(true);
+    expect(settingsEqual(custom, DEFAULT_EFFECT_SETTINGS)).toBe(false);
+  });
+});
@@ -0,0 +1,238 @@
+import { isValidHex, parseHex, toHex } from "./color";
+import { COLOR_INTERPOLATIONS } from "./colorspace";
+import { DEFAULT_EFFECT_SETTINGS, EFFECT_MODES, type EffectSettings } from "./effect";
+import { MAX_GRADIENT_STOPS, MIN_GRADIENT_STOPS, type GradientStop } from "./gradient";
+import { LUMINANCE_FORMULAS } from "./luminance";
+
+/**
+ * A named set of effect settings. Presets never carry image data, so they
+ * are small enough for localStorage and URLs.
+ */
+export interface Preset {
+  name: string;
+  settings: EffectSettings;
+}
+
+export class PresetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PresetError";
+  }
+}
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  { name: "Brave Pink Hero Green", settings: DEFAULT_EFFECT_SETTINGS },
+];
+
+// Bumped if the file layout ever changes incompatibly
+const PRESET_FILE_VERSION = 1;
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Missing fields fall back to `fallback`; present ones must be usable
+const readNumber = (source: Json, key: string, fallback: number, min: number, max: number) => {
+  const value = source[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    throw new PresetError(`"${key}" must be a number from ${min} to ${max}`);
+  }
+  return value;
+};
+
+const readChoice = <T extends string>(
+  source: Json,
+  key: string,
+  fallback: T,
+  choices: readonly T[]
+): T => {
+  const value = source[key];
+  if (value === undefined) return fallback;
+  if (!choices.includes(value as T)) {
+    throw new PresetError(`"${key}" must be one of ${choices.join(", ")}`);
+  }
+  return value as T;
+};
+
+const readColor = (source: Json, key: string, fallback: string) => {
+  const value = source[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== "string" || !isValidHex(value)) {
+    throw new PresetError(`"${key}" must be a hex color`);
+  }
+  return toHex(parseHex(value));
+};
+
+const readGradient = (source: Json, key: string, fallback: GradientStop[]) => {
+  const value = source[key];
+  if (value === undefined) return fallback;
+  if (
+    !Array.isArray(value) ||
+    value.length < MIN_GRADIENT_STOPS ||
+    value.length > MAX_GRADIENT_STOPS
+  ) {
+    throw new PresetError(
+      `"${key}" must list ${MIN_GRADIENT_STOPS} to ${MAX_GRADIENT_STOPS} color stops`
+    );
+  }
+  return value.map((stop): GradientStop => {
+    if (!isObject(stop) || stop.position === undefined || stop.color === undefined) {
+      throw new PresetError(`"${key}" stops need a position and a color`);
+    }
+    return {
+      position: readNumber(stop, "position", 0, 0, 1),
+      color: readColor(stop, "color", ""),
+    };
+  });
+};
+
+const readSection = (source: Json, key: string): Json => {
+  const value = source[key];
+  if (value === undefined) return {};
+  if (!isObject(value)) throw new PresetError(`"${key}" must be an object`);
+  return value;
+};
+
+/**
+ * Validates untrusted settings, e.g. from an imported file or a shared link.
+ * Missing fields take their default value; unknown fields are dropped.
+ * @throws PresetError describing the first invalid field.
+ */
+export const parseEffectSettings = (value: unknown): EffectSettings => {
+  if (!isObject(value)) throw new PresetError("Settings must be an object");
+  const defaults = DEFAULT_EFFECT_SETTINGS;
+  const colors = readSection(value, "colors");
+  const classic = readSection(value, "classic");
+  const tone = readSection(value, "tone");
+
+  const blackPoint = readNumber(tone, "blackPoint", defaults.tone.blackPoint, 0, 254);
+  const whitePoint = readNumber(tone, "whitePoint", defaults.tone.whitePoint, 1, 255);
+  if (blackPoint >= whitePoint) {
+    throw new PresetError('"blackPoint" must be below "whitePoint"');
+  }
+
+  return {
+    mode: readChoice(
+      value,
+      "mode",
+      defaults.mode,
+      EFFECT_MODES.map((m) => m.value)
+    ),
+    colors: {
+      shadow: readColor(colors, "shadow", defaults.colors.shadow),
+      highlight: readColor(colors, "highlight", defaults.colors.highlight),
+    },
+    gradient: readGradient(value, "gradient", defaults.gradient),
+    classic: {
+      redMultiplier: readNumber(classic, "redMultiplier", defaults.classic.redMultiplier, 0, 3),
+      greenMultiplier: readNumber(classic, "greenMultiplier", defaults.classic.greenMultiplier, 0, 3),
+      blueMultiplier: readNumber(classic, "blueMultiplier", defaults.classic.blueMultiplier, 0, 3),
+    },
+    tone: {
+      luminance: readChoice(
+        tone,
+        "luminance",
+        defaults.tone.luminance,
+        LUMINANCE_FORMULAS.map((f) => f.value)
+      ),
+      contrast: readNumber(tone, "contrast", defaults.tone.contrast, 0, 10),
+      gamma: readNumber(tone, "gamma", defaults.tone.gamma, 0.01, 10),
+      blackPoint,
+      whitePoint,
+    },
+    interpolation: readChoice(
+      value,
+      "interpolation",
+      defaults.interpolation,
+      COLOR_INTERPOLATIONS.map((i) => i.value)
+    ),
+  };
+};
+
+/**
+ * Validates a single untrusted preset.
+ * @throws PresetError when the name is missing or the settings are invalid.
+ */
+export const parsePreset = (value: unknown): Preset => {
+  if (!isObject(value)) throw new PresetError("Preset must be an object");
+  const name = typeof value.name === "string" ? value.name.trim() : "";
+  if (!name) throw new PresetError("Preset needs a name");
+  try {
+    return { name, settings: parseEffectSettings(value.settings) };
+  } catch (error) {
+    throw new PresetError(`Preset "${name}": ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Serializes presets into the JSON file format used for export.
+ */
+export const serializePresets = (presets: Preset[]) =>
+  JSON.stringify({ version: PRESET_FILE_VERSION, presets }, null, 2);
+
+/**
+ * Reads a preset file written by {@link serializePresets}. A bare preset or a
+ * plain array of presets is accepted as well.
+ * @throws PresetError when the text isn't a valid preset file.
+ */
+export const parsePresetFile = (text: string): Preset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PresetError("Not a valid JSON file");
+  }
+
+  if (isObject(data) && "presets" in data) {
+    if (typeof data.version === "number" && data.version > PRESET_FILE_VERSION) {
+      throw new PresetError("This preset file was made by a newer version of the app");
+    }
+    data = data.presets;
+  }
+  const list = Array.isArray(data) ? data : [data];
+  if (list.length === 0) throw new PresetError("The file contains no presets");
+  return list.map(parsePreset);
+};
+
+// Hash parameter holding the shared settings, e.g. "#look=eyJtb2RlIjoi..."
+const HASH_KEY = "look";
+
+const toBase64Url = (text: string) => {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+};
+
+/**
+ * Encodes settings as a URL hash (including the leading "#") that
+ * {@link decodeSettingsHash} turns back into the same look.
+ */
+export const encodeSettingsHash = (settings: EffectSettings) =>
+  `#${HASH_KEY}=${toBase64Url(JSON.stringify(settings))}`;
+
+/**
+ * Reads settings from a URL hash.
+ * @returns null when the hash holds no settings or they are invalid.
+ */
+export const decodeSettingsHash = (hash: string): EffectSettings | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(HASH_KEY);
+  if (!encoded) return null;
+  try {
+    return parseEffectSettings(JSON.parse(fromBase64Url(encoded)));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether two settings produce the same look.
+ */
+export const settingsEqual = (a: EffectSettings, b: EffectSettings) =>
+  JSON.stringify(a) === JSON.stringify(b);
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { fitArea, imageStrips } from "./tiles";
+
+describe("imageStrips", () => {
+  it("covers every row exactly once", () => {
+    const strips = imageStrips(100, 250, 10_000);
+    expect(strips).toEqual([
+      { y: 0, rows: 100 },
+      { y: 100, rows: 100 },
+      { y: 200, rows: 50 },
+    ]);
+  });
+
+  it("keeps small images in a single strip", () => {
+    expect(imageStrips(640, 480)).toEqual([{ y: 0, rows: 480 }]);
+  });
+
+  it("takes at least one row when a single row exceeds the budget", () => {
+    expect(imageStrips(50_000, 2, 1000)).toEqual([
+      { y: 0, rows: 1 },
+      { y: 1, rows: 1 },
+    ]);
+  });
+});
+
+describe("fitArea", () => {
+  it("leaves sizes within the limits alone", () => {
+    expect(fitArea(4000, 3000, 16_777_216)).toEqual({ width: 4000, height: 3000 });
+  });
+
+  it("scales down to the area limit keeping the aspect ratio", () => {
+    const { width, height } = fitArea(8000, 6000, 16_777_216);
+    expect(width * height).toBeLessThanOrEqual(16_777_216);
+    expect(width / height).toBeCloseTo(4 / 3, 2);
+    expect(width).toBeGreaterThan(4700);
+  });
+
+  it("caps the longer edge", () => {
+    expect(fitArea(40_000, 1000, Infinity, 32_767)).toEqual({ width: 32_767, height: 819 });
+  });
+});
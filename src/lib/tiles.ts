@@ -0,0 +1,49 @@
+/** Pixels per strip when streaming through an image, 16 MB of RGBA */
+export const STRIP_PIXELS = 4 * 1024 * 1024;
+
+/** A band of full-width rows */
+export interface Strip {
+  y: number;
+  rows: number;
+}
+
+/**
+ * Splits an image into full-width horizontal strips of at most `maxPixels`
+ * each (and at least one row), so no pixel buffer grows with the image.
+ */
+export const imageStrips = (
+  width: number,
+  height: number,
+  maxPixels = STRIP_PIXELS
+): Strip[] => {
+  const rowsPerStrip = Math.max(1, Math.floor(maxPixels / Math.max(1, width)));
+  const strips: Strip[] = [];
+  for (let y = 0; y < height; y += rowsPerStrip) {
+    strips.push({ y, rows: Math.min(rowsPerStrip, height - y) });
+  }
+  return strips;
+};
+
+/**
+ * Scales `width` x `height` down, keeping the aspect ratio, until it holds
+ * at most `maxArea` pixels and neither edge exceeds `maxSide`. Sizes that
+ * already fit are returned as they are.
+ */
+export const fitArea = (
+  width: number,
+  height: number,
+  maxArea: number,
+  maxSide = Infinity
+) => {
+  const scale = Math.min(
+    1,
+    Math.sqrt(maxArea / (width * height)),
+    maxSide / Math.max(width, height)
+  );
+  if (scale >= 1) return { width, height };
+  // Round down so the result never overshoots the limits
+  return {
+    width: Math.max(1, Math.floor(width * scale)),
+    height: Math.max(1, Math.floor(height * scale)),
+  };
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createLuminance, linearToSrgb, srgbToLinear } from "./luminance";
+import { DEFAULT_TONE_SETTINGS, buildToneCurve } from "./tone";
+
+describe("createLuminance", () => {
+  it.each(["average", "rec709", "rec601", "linear"] as const)(
+    "%s maps black to 0 and white to 255",
+    (formula) => {
+      const luminance = createLuminance(formula);
+      expect(luminance(0, 0, 0)).toBeCloseTo(0);
+      expect(luminance(255, 255, 255)).toBeCloseTo(255);
+    }
+  );
+
+  it("weights green above red above blue for rec709", () => {
+    const luminance = createLuminance("rec709");
+    expect(luminance(0, 255, 0)).toBeGreaterThan(luminance(255, 0, 0));
+    expect(luminance(255, 0, 0)).toBeGreaterThan(luminance(0, 0, 255));
+  });
+
+  it("round-trips the sRGB transfer function", () => {
+    for (const c of [0, 0.02, 0.5, 1]) {
+      expect(linearToSrgb(srgbToLinear(c))).toBeCloseTo(c, 6);
+    }
+  });
+});
+
+describe("buildToneCurve", () => {
+  it("is the identity ramp with default settings", () => {
+    const curve = buildToneCurve(DEFAULT_TONE_SETTINGS);
+    expect(curve).toHaveLength(256);
+    for (let i = 0; i < 256; i++) expect(curve[i]).toBeCloseTo(i / 255, 5);
+  });
+
+  it("clips below the black point and above the white point", () => {
+    const curve = buildToneCurve({
+      ...DEFAULT_TONE_SETTINGS,
+      blackPoint: 50,
+      whitePoint: 200,
+    });
+    expect(curve[0]).toBe(0);
+    expect(curve[50]).toBe(0);
+    expect(curve[200]).toBe(1);
+    expect(curve[255]).toBe(1);
+  });
+
+  it("survives crossed levels without producing NaN", () => {
+    const curve = buildToneCurve({
+      ...DEFAULT_TONE_SETTINGS,
+      blackPoint: 200,
+      whitePoint: 100,
+    });
+    expect(curve.every((value) => value >= 0 && value <= 1)).toBe(true);
+  });
+
+  it("brightens midtones when gamma is above 1", () => {
+    const curve = buildToneCurve({ ...DEFAULT_TONE_SETTINGS, gamma: 2 });
+    expect(curve[128]).toBeGreaterThan(128 / 255);
+  });
+});
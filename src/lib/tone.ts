@@ -0,0 +1,45 @@
+import type { LuminanceFormula } from "./luminance";
+
+/**
+ * Shapes the brightness ratio before it is mapped onto the colors.
+ */
+export interface ToneSettings {
+  luminance: LuminanceFormula;
+  /** Multiplier around the midpoint; 1 leaves the curve unchanged */
+  contrast: number;
+  /** Midtone gamma; above 1 brightens, below 1 darkens */
+  gamma: number;
+  /** Input level (0-255) mapped to the shadow color */
+  blackPoint: number;
+  /** Input level (0-255) mapped to the highlight color */
+  whitePoint: number;
+}
+
+export const DEFAULT_TONE_SETTINGS: ToneSettings = {
+  // The original formula, so existing looks and presets render unchanged
+  luminance: "average",
+  contrast: 1,
+  gamma: 1,
+  blackPoint: 0,
+  whitePoint: 255,
+};
+
+/**
+ * Builds a 256-entry lookup table mapping brightness to a 0-1 color ratio,
+ * applying levels, gamma and contrast in that order.
+ */
+export const buildToneCurve = (tone: ToneSettings): Float32Array => {
+  const curve = new Float32Array(256);
+  const black = Math.min(tone.blackPoint, tone.whitePoint - 1);
+  const range = Math.max(1, tone.whitePoint - black);
+  const gamma = Math.max(0.01, tone.gamma);
+
+  for (let i = 0; i < 256; i++) {
+    let ratio = Math.min(1, Math.max(0, (i - black) / range));
+    ratio = Math.pow(ratio, 1 / gamma);
+    ratio = (ratio - 0.5) * tone.contrast + 0.5;
+    curve[i] = Math.min(1, Math.max(0, ratio));
+  }
+
+  return curve;
+};
@@ -0,0 +1,82 @@
+import { insertExifSegment } from "./exif";
+
+// APP1 segment holding only "Orientation = 6" (rotate 90° clockwise)
+const ORIENTATION_6_SEGMENT = new Uint8Array([
+  0xff, 0xe1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+  0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+  0x00, 0x01,
+  0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00,
+]);
+
+let appliesOrientation: Promise<boolean> | null = null;
+
+/**
+ * Detects whether `createImageBitmap` honors EXIF orientation by decoding a
+ * 2x1 JPEG tagged as rotated: a browser that applies the tag returns 1x2.
+ * The result is cached for the lifetime of the worker.
+ */
+export const browserAppliesOrientation = () => {
+  appliesOrientation ??= (async () => {
+    try {
+      const canvas = new OffscreenCanvas(2, 1);
+      canvas.getContext("2d")?.fillRect(0, 0, 2, 1);
+      const probe = await canvas.convertToBlob({ type: "image/jpeg" });
+      const tagged = insertExifSegment(
+        new Uint8Array(await probe.arrayBuffer()),
+        ORIENTATION_6_SEGMENT
+      );
+      const bitmap = await createImageBitmap(
+        new Blob([tagged], { type: "image/jpeg" }),
+        { imageOrientation: "from-image" }
+      );
+      const applied = bitmap.width === 1;
+      bitmap.close();
+      return applied;
+    } catch {
+      // Assume the modern default if the probe itself fails
+      return true;
+    }
+  })();
+  return appliesOrientation;
+};
+
+/**
+ * Orientations 5-8 swap width and height.
+ */
+export const isTransposed = (orientation: number) => orientation >= 5 && orientation <= 8;
+
+/**
+ * Sets up `ctx` so that drawing the unrotated image at (0, 0) with size
+ * `drawWidth` x `drawHeight` lands upright on the canvas.
+ */
+export const applyOrientationTransform = (
+  ctx: OffscreenCanvasRenderingContext2D,
+  orientation: number,
+  drawWidth: number,
+  drawHeight: number
+) => {
+  switch (orientation) {
+    case 2:
+      ctx.transform(-1, 0, 0, 1, drawWidth, 0);
+      break;
+    case 3:
+      ctx.transform(-1, 0, 0, -1, drawWidth, drawHeight);
+      break;
+    case 4:
+      ctx.transform(1, 0, 0, -1, 0, drawHeight);
+      break;
+    case 5:
+      ctx.transform(0, 1, 1, 0, 0, 0);
+      break;
+    case 6:
+      ctx.transform(0, 1, -1, 0, drawHeight, 0);
+      break;
+    case 7:
+      ctx.transform(0, -1, -1, 0, drawHeight, drawWidth);
+      break;
+    case 8:
+      ctx.transform(0, -1, 1, 0, 0, drawWidth);
+      break;
+  }
+};
@@ -0,0 +1,154 @@
+import { encodeCanvas, readColorSpace } from "./encode";
+import { readExifFromBlob } from "./exif";
+import { formatInfo, type EncodeOptions } from "./export";
+import { placeImage, posterSize, type Poster, type PosterLayer } from "./lib";
+
+export interface LayerBounds {
+  id: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type PosterContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+type SizedImage = CanvasImageSource & { width: number; height: number };
+
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+
+// SVGs without width/height attributes report no natural size
+const FALLBACK_LOGO_WIDTH = 300;
+const FALLBACK_LOGO_HEIGHT = 150;
+
+/** Logo file types, SVG included */
+export const LOGO_TYPES = ["image/png", "image/jpeg", "image/webp", "image/svg+xml"];
+
+/**
+ * Loads an uploaded logo (PNG, JPEG, WebP or SVG) for drawing.
+ */
+export const loadLogo = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The logo couldn't be loaded"));
+    image.src = src;
+  });
+
+export const logoSize = (logo: HTMLImageElement) => ({
+  width: logo.naturalWidth || FALLBACK_LOGO_WIDTH,
+  height: logo.naturalHeight || FALLBACK_LOGO_HEIGHT,
+});
+
+const drawLayer = (
+  ctx: PosterContext,
+  layer: PosterLayer,
+  width: number,
+  height: number,
+  logos: Map<string, HTMLImageElement>
+): LayerBounds | null => {
+  const centerX = layer.x * width;
+  const centerY = layer.y * height;
+
+  if (layer.kind === "logo") {
+    const logo = logos.get(layer.src);
+    if (!logo) return null;
+    const natural = logoSize(logo);
+    const w = layer.width * width;
+    const h = (w * natural.height) / natural.width;
+    const x = centerX - w / 2;
+    const y = centerY - h / 2;
+    ctx.drawImage(logo, x, y, w, h);
+    return { id: layer.id, x, y, width: w, height: h };
+  }
+
+  const lineHeight = layer.size * height;
+  const lines = layer.text.split("\n");
+  ctx.font = `${layer.bold ? "800" : "400"} ${lineHeight * 0.8}px ${FONT_FAMILY}`;
+  ctx.fillStyle = layer.color;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  // A soft shadow keeps text legible over busy photos
+  ctx.shadowColor = "rgba(0, 0, 0, 0.35)";
+  ctx.shadowBlur = lineHeight * 0.15;
+
+  const top = centerY - (lines.length * lineHeight) / 2;
+  let widest = 0;
+  lines.forEach((line, i) => {
+    ctx.fillText(line, centerX, top + (i + 0.5) * lineHeight);
+    widest = Math.max(widest, ctx.measureText(line).width);
+  });
+  ctx.shadowColor = "transparent";
+  ctx.shadowBlur = 0;
+
+  return {
+    id: layer.id,
+    x: centerX - widest / 2,
+    y: top,
+    width: widest,
+    height: lines.length * lineHeight,
+  };
+};
+
+/**
+ * Draws the photo and every layer onto a `width` x `height` context.
+ * @param logos - Loaded logo images keyed by layer `src`; missing ones are skipped.
+ * @returns Where each drawn layer ended up, for hit testing.
+ */
+export const drawPoster = (
+  ctx: PosterContext,
+  image: SizedImage,
+  poster: Poster,
+  width: number,
+  height: number,
+  logos: Map<string, HTMLImageElement>
+): LayerBounds[] => {
+  if (poster.background) {
+    ctx.fillStyle = poster.background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = "high";
+  const placed = placeImage(image.width, image.height, width, height, poster.fit);
+  ctx.drawImage(image, placed.x, placed.y, placed.width, placed.height);
+
+  return poster.layers.flatMap((layer) => {
+    const bounds = drawLayer(ctx, layer, width, height, logos);
+    return bounds ? [bounds] : [];
+  });
+};
+
+// What opaque formats get behind the photo when no background was picked,
+// matching how plain downloads are flattened
+const OPAQUE_BACKGROUND = "#ffffff";
+
+/**
+ * Flattens the poster over the processed image at full resolution, encoded
+ * like a plain download: same format, color space and kept metadata.
+ * @param result - The processed image, as encoded by the worker.
+ */
+export const composePoster = async (
+  result: Blob,
+  poster: Poster,
+  options: Pick<EncodeOptions, "format" | "quality" | "metadata">
+): Promise<Blob> => {
+  // The result already holds only the metadata the user kept
+  const exif = await readExifFromBlob(result).catch(() => null);
+  const colorSpace = await readColorSpace(result);
+  const bitmap = await createImageBitmap(result);
+  const logos = new Map<string, HTMLImageElement>();
+  for (const layer of poster.layers) {
+    if (layer.kind === "logo" && !logos.has(layer.src)) {
+      logos.set(layer.src, await loadLogo(layer.src));
+    }
+  }
+
+  const { width, height } = posterSize(bitmap.width, bitmap.height, poster.frame);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d", { colorSpace });
+  if (!ctx) throw new Error("Canvas is unavailable");
+  const background =
+    poster.background ?? (formatInfo(options.format).alpha ? null : OPAQUE_BACKGROUND);
+  drawPoster(ctx, bitmap, { ...poster, background }, width, height, logos);
+  bitmap.close();
+
+  return encodeCanvas(canvas, colorSpace, options, exif);
+};
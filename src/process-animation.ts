@@ -0,0 +1,83 @@
+import type { EffectSettings } from "./lib";
+import type { AnimationFormat } from "./export";
+import type {
+  AnimationRequest,
+  AnimationResponse,
+} from "./workers/animation.worker";
+import { abortError } from "./process-image";
+import { ImageError } from "./validation";
+
+export interface ConvertOptions {
+  /** Receives overall progress between 0 and 1 */
+  onProgress?: (progress: number) => void;
+  /** Aborting stops the conversion and rejects with an `AbortError` */
+  signal?: AbortSignal;
+}
+
+/** A converted animation or clip */
+export interface AnimationResult {
+  blob: Blob;
+  format: AnimationFormat;
+  /** Whether frames past the length limit were dropped */
+  trimmed: boolean;
+}
+
+/**
+ * Applies the effect to every frame of an animated GIF, PNG or WebP in a
+ * dedicated worker and encodes the result as a looping GIF. Works like
+ * `processImageInWorker`: one worker per call, terminated on abort.
+ */
+export const processAnimationInWorker = (
+  source: Blob,
+  settings: EffectSettings,
+  { onProgress, signal }: ConvertOptions = {}
+): Promise<AnimationResult> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const worker = new Worker(
+      new URL("./workers/animation.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(abortError());
+    };
+
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = (e: MessageEvent<AnimationResponse>) => {
+      const message = e.data;
+      switch (message.type) {
+        case "progress":
+          onProgress?.(message.progress);
+          break;
+        case "done":
+          finish();
+          resolve({ blob: message.blob, format: "gif", trimmed: message.trimmed });
+          break;
+        case "error":
+          finish();
+          reject(new ImageError(message.reason, message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (e) => {
+      finish();
+      reject(new ImageError("processing-failed", e.message || "Worker failed"));
+    };
+
+    const request: AnimationRequest = { source, settings };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,205 @@
+import {
+  ANIMATION_MAX_DIMENSION,
+  MAX_CLIP_SECONDS,
+  type EffectSettings,
+} from "./lib";
+import type { AnimationFormat } from "./export";
+import { createFramePainter } from "./frame-painter";
+import { abortError } from "./process-image";
+import type { AnimationResult, ConvertOptions } from "./process-animation";
+import { ImageError } from "./validation";
+
+const CLIP_FRAME_RATE = 30;
+const CLIP_BITRATE = 5_000_000;
+
+// In order of preference; Safari only records MP4
+const RECORDING_TYPES: { mimeType: string; format: AnimationFormat }[] = [
+  { mimeType: "video/webm;codecs=vp9", format: "webm" },
+  { mimeType: "video/webm;codecs=vp8", format: "webm" },
+  { mimeType: "video/webm", format: "webm" },
+  { mimeType: "video/mp4", format: "mp4" },
+];
+
+/** The best recording format this browser offers, or null if it can't record */
+export const clipRecordingType = () =>
+  typeof MediaRecorder === "undefined"
+    ? null
+    : (RECORDING_TYPES.find(({ mimeType }) => MediaRecorder.isTypeSupported(mimeType)) ??
+      null);
+
+const paintCanvas = () => {
+  // A canvas keeps its first context type, so the CPU fallback needs a new one
+  const gpuCanvas = document.createElement("canvas");
+  const options = { maxDimension: ANIMATION_MAX_DIMENSION };
+  const gpuPainter = createFramePainter(gpuCanvas, { ...options, gpu: true });
+  if (gpuPainter) return { canvas: gpuCanvas, painter: gpuPainter };
+  const canvas = document.createElement("canvas");
+  const painter = createFramePainter(canvas, { ...options, gpu: false });
+  return painter ? { canvas, painter } : null;
+};
+
+const loadVideo = (video: HTMLVideoElement) =>
+  new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve();
+    video.onerror = () =>
+      reject(
+        new ImageError("decode-failed", "The clip couldn't be played. Try an MP4 or WebM file.")
+      );
+  });
+
+// Some files never finish seeking; give up rather than hang the conversion
+const SEEK_TIMEOUT_MS = 3000;
+
+// Settles true once the seek lands, false if it fails, times out or the job
+// is cancelled; never rejects
+const seek = (video: HTMLVideoElement, time: number, signal?: AbortSignal) =>
+  new Promise<boolean>((resolve) => {
+    if (signal?.aborted) return resolve(false);
+    const done = (landed: boolean) => {
+      clearTimeout(timer);
+      video.removeEventListener("seeked", handleSeeked);
+      video.removeEventListener("error", handleFailed);
+      signal?.removeEventListener("abort", handleFailed);
+      resolve(landed);
+    };
+    const handleSeeked = () => done(true);
+    const handleFailed = () => done(false);
+    const timer = setTimeout(handleFailed, SEEK_TIMEOUT_MS);
+    video.addEventListener("seeked", handleSeeked);
+    video.addEventListener("error", handleFailed);
+    signal?.addEventListener("abort", handleFailed);
+    video.currentTime = time;
+  });
+
+// Files written by MediaRecorder often carry no duration, which then reads
+// as Infinity until the player has seen the end. Seeking there resolves it;
+// if that fails, the duration stays unknown (NaN or Infinity).
+const resolveDuration = async (video: HTMLVideoElement, signal?: AbortSignal) => {
+  if (Number.isFinite(video.duration)) return video.duration;
+  const landed = await seek(video, Number.MAX_SAFE_INTEGER, signal);
+  const duration = landed ? video.duration : NaN;
+  if (video.currentTime !== 0) await seek(video, 0, signal);
+  return duration;
+};
+
+/**
+ * Plays a short clip muted in the background, paints each frame with the
+ * effect and records the canvas with `MediaRecorder`. Runs in real time, so a
+ * 10-second clip takes about 10 seconds; clips longer than
+ * `MAX_CLIP_SECONDS` are cut. The sound track is not carried over.
+ */
+export const processClip = async (
+  source: Blob,
+  settings: EffectSettings,
+  { onProgress, signal }: ConvertOptions = {}
+): Promise<AnimationResult> => {
+  if (signal?.aborted) throw abortError();
+  const recording = clipRecordingType();
+  const target = recording && paintCanvas();
+  if (!recording || !target) {
+    throw new ImageError(
+      "processing-failed",
+      "This browser can't record video. Try a recent Chrome, Edge, Firefox or Safari."
+    );
+  }
+  const { canvas, painter } = target;
+
+  const url = URL.createObjectURL(source);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+  video.src = url;
+
+  const cleanUp = () => {
+    video.pause();
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+    painter.dispose();
+  };
+
+  let duration: number;
+  try {
+    await loadVideo(video);
+    duration = await resolveDuration(video, signal);
+  } catch (error) {
+    cleanUp();
+    throw error;
+  }
+  if (signal?.aborted) {
+    cleanUp();
+    throw abortError();
+  }
+
+  // With an unknown duration, progress runs against the limit and the clip
+  // only counts as trimmed if it is still playing when the limit is hit
+  const known = Number.isFinite(duration);
+  const length = known ? Math.min(duration, MAX_CLIP_SECONDS) : MAX_CLIP_SECONDS;
+  let trimmed = known && duration > MAX_CLIP_SECONDS;
+  // The recorder takes the stream's size from the first frame, so paint it up front
+  painter.draw(video, settings);
+
+  return new Promise((resolve, reject) => {
+    const stream = canvas.captureStream(CLIP_FRAME_RATE);
+    const recorder = new MediaRecorder(stream, {
+      mimeType: recording.mimeType,
+      videoBitsPerSecond: CLIP_BITRATE,
+    });
+    const chunks: Blob[] = [];
+    let frame = 0;
+    let stopped = false;
+    // Set when the promise was already rejected and the recording is discarded
+    let failed = false;
+
+    const stop = () => {
+      if (stopped) return;
+      stopped = true;
+      video.cancelVideoFrameCallback(frame);
+      video.pause();
+      signal?.removeEventListener("abort", handleAbort);
+      if (recorder.state !== "inactive") recorder.stop();
+    };
+
+    const fail = (error: unknown) => {
+      failed = true;
+      stop();
+      cleanUp();
+      reject(error);
+    };
+
+    const handleAbort = () => fail(abortError());
+
+    const paint = () => {
+      if (stopped) return;
+      painter.draw(video, settings);
+      onProgress?.(Math.min(1, video.currentTime / length));
+      if (video.currentTime >= length) {
+        if (!known && !video.ended) trimmed = true;
+        stop();
+        return;
+      }
+      frame = video.requestVideoFrameCallback(paint);
+    };
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      if (failed) return;
+      cleanUp();
+      onProgress?.(1);
+      const type = recording.mimeType.split(";")[0];
+      resolve({ blob: new Blob(chunks, { type }), format: recording.format, trimmed });
+    };
+    video.onended = stop;
+    signal?.addEventListener("abort", handleAbort);
+
+    recorder.start();
+    frame = video.requestVideoFrameCallback(paint);
+    video.play().catch((error) =>
+      fail(new ImageError("processing-failed", `The clip couldn't be played: ${error}`))
+    );
+  });
+};
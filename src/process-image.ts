@@ -0,0 +1,114 @@
+import type { CropSettings, EffectSettings, MaskSettings } from "./lib";
+import { DEFAULT_EXPORT_OPTIONS, type EncodeOptions } from "./export";
+import type {
+  DuotoneRequest,
+  DuotoneResponse,
+} from "./workers/duotone.worker";
+import { ImageError } from "./validation";
+import { UNKNOWN_CANVAS_LIMITS } from "./canvas-limits";
+
+interface ProcessOptions {
+  /** Receives overall progress between 0 and 1 */
+  onProgress?: (progress: number) => void;
+  /** Aborting terminates the worker and rejects with an `AbortError` */
+  signal?: AbortSignal;
+  /** Receives notes on changes made to get the job done, e.g. downscaling */
+  onWarning?: (message: string) => void;
+  /** Output format and size, defaults to full-size JPEG */
+  encodeOptions?: EncodeOptions;
+  /** Rotates, flips and crops the image before the effect */
+  crop?: CropSettings | null;
+  /** Limits the effect to the masked area */
+  mask?: MaskSettings | null;
+}
+
+// Workers don't outlive their job, so what one learns about the canvas cap
+// is kept here for the next
+let canvasLimits = UNKNOWN_CANVAS_LIMITS;
+
+export const abortError = () => new DOMException("Processing cancelled", "AbortError");
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+/**
+ * Decodes `source` and applies the effect in a dedicated worker, keeping the
+ * main thread responsive. Each call gets its own worker so cancelling one job
+ * is a plain `terminate()`, even halfway through the pixel loop.
+ * @returns The processed image, encoded per `encodeOptions`.
+ */
+export const processImageInWorker = (
+  source: Blob,
+  settings: EffectSettings,
+  {
+    onProgress,
+    signal,
+    onWarning,
+    encodeOptions = DEFAULT_EXPORT_OPTIONS,
+    crop = null,
+    mask = null,
+  }: ProcessOptions = {}
+): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const worker = new Worker(
+      new URL("./workers/duotone.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(abortError());
+    };
+
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = (e: MessageEvent<DuotoneResponse>) => {
+      const message = e.data;
+      switch (message.type) {
+        case "progress":
+          onProgress?.(message.progress);
+          break;
+        case "warning":
+          onWarning?.(message.message);
+          break;
+        case "canvas-limits":
+          canvasLimits = message.limits;
+          break;
+        case "done":
+          finish();
+          onProgress?.(1);
+          resolve(message.blob);
+          break;
+        case "error":
+          finish();
+          reject(new ImageError(message.reason, message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (e) => {
+      finish();
+      reject(new ImageError("processing-failed", e.message || "Worker failed"));
+    };
+
+    const request: DuotoneRequest = {
+      source,
+      settings,
+      encodeOptions,
+      crop,
+      mask,
+      canvasLimits,
+    };
+    worker.postMessage(request);
+  });
+};
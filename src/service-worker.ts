@@ -0,0 +1,41 @@
+import {
+  cleanupOutdatedCaches,
+  precacheAndRoute,
+  type PrecacheEntry,
+} from "workbox-precaching";
+import {
+  SHARED_PARAM,
+  SHARE_TARGET_FIELD,
+  SHARE_TARGET_PATH,
+  stashSharedFiles,
+} from "./share-target";
+
+declare let self: ServiceWorkerGlobalScope & {
+  /** Build output list, injected by vite-plugin-pwa */
+  __WB_MANIFEST: (string | PrecacheEntry)[];
+};
+
+// The whole app is precached, so it opens with no connection at all. A new
+// version waits until every tab of the old one is closed.
+cleanupOutdatedCaches();
+precacheAndRoute(self.__WB_MANIFEST, {
+  ignoreURLParametersMatching: [/^utm_/, /^fbclid$/, new RegExp(`^${SHARED_PARAM}$`)],
+});
+
+// Photos sent from the share sheet arrive as a form POST. Stash them and
+// redirect to the app, which picks them up on load.
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== "POST" || url.pathname !== SHARE_TARGET_PATH) return;
+
+  event.respondWith(
+    (async () => {
+      const data = await event.request.formData();
+      const files = data
+        .getAll(SHARE_TARGET_FIELD)
+        .filter((entry): entry is File => entry instanceof File);
+      await stashSharedFiles(files);
+      return Response.redirect(`/?${SHARED_PARAM}`, 303);
+    })()
+  );
+});
@@ -0,0 +1,52 @@
+/** Where the share sheet posts photos, as declared in the web app manifest */
+export const SHARE_TARGET_PATH = "/share-target";
+
+/** Form field holding the shared files */
+export const SHARE_TARGET_FIELD = "photos";
+
+/** Query flag the service worker redirects to once the photos are stashed */
+export const SHARED_PARAM = "shared";
+
+// Shared photos wait here between the service worker and the page
+const SHARE_CACHE = "brave-pink-shared";
+
+/**
+ * Keeps shared files in Cache Storage until the page picks them up.
+ * Anything left over from an earlier share is dropped.
+ */
+export const stashSharedFiles = async (files: File[]) => {
+  await caches.delete(SHARE_CACHE);
+  const cache = await caches.open(SHARE_CACHE);
+  await Promise.all(
+    files.map((file, i) =>
+      cache.put(
+        `/shared/${i}`,
+        new Response(file, {
+          headers: {
+            "Content-Type": file.type,
+            "X-File-Name": encodeURIComponent(file.name),
+          },
+        })
+      )
+    )
+  );
+};
+
+/**
+ * Takes the stashed files out of Cache Storage, in the order they were shared.
+ */
+export const takeSharedFiles = async (): Promise<File[]> => {
+  if (!("caches" in self)) return [];
+  const cache = await caches.open(SHARE_CACHE);
+  const files = await Promise.all(
+    (await cache.keys()).map(async (request, i) => {
+      const response = await cache.match(request);
+      if (!response) return null;
+      const blob = await response.blob();
+      const name = decodeURIComponent(response.headers.get("X-File-Name") ?? `shared-${i + 1}`);
+      return new File([blob], name, { type: blob.type });
+    })
+  );
+  await caches.delete(SHARE_CACHE);
+  return files.filter((file): file is File => file !== null);
+};
@@ -0,0 +1,97 @@
+import { isAnimatedImage } from "./lib";
+
+/**
+ * Why an image could not be turned into a duotone.
+ */
+export type ImageErrorReason =
+  | "unsupported-type"
+  | "too-large"
+  | "decode-failed"
+  | "canvas-too-large"
+  | "processing-failed";
+
+export class ImageError extends Error {
+  readonly reason: ImageErrorReason;
+
+  constructor(reason: ImageErrorReason, message: string) {
+    super(message);
+    this.name = "ImageError";
+    this.reason = reason;
+  }
+}
+
+export const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+/** Short videos, converted frame by frame */
+export const CLIP_TYPES = ["video/mp4", "video/webm"];
+
+export const MAX_FILE_SIZE = 25 * 1024 * 1024;
+
+export const MAX_CLIP_FILE_SIZE = 100 * 1024 * 1024;
+
+/**
+ * How a file is processed: stills go through the image worker, animated
+ * images and clips are converted frame by frame.
+ */
+export type MediaKind = "image" | "animation" | "clip";
+
+// APNG and animated WebP announce themselves in their first chunks
+const ANIMATION_SNIFF_BYTES = 64 * 1024;
+
+// Largest canvas area (in pixels) any engine allows, 16384x16384. Devices
+// with lower caps, such as iOS Safari at 16.7MP, are found by probing: see
+// fitCanvasToDevice in canvas-limits.ts.
+export const MAX_CANVAS_AREA = 268_435_456;
+
+// Longest canvas edge Chrome, Firefox and Safari accept
+export const MAX_CANVAS_SIDE = 32_767;
+
+const formatMegabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+
+/**
+ * Checks a file against the advertised type and size limits before any
+ * decoding happens. Clips get a larger size limit than images.
+ * @returns The first problem found, or null if the file looks usable.
+ */
+export const validateImageFile = (file: File): ImageError | null => {
+  const isClip = CLIP_TYPES.includes(file.type);
+  if (!isClip && !ACCEPTED_TYPES.includes(file.type)) {
+    return new ImageError(
+      "unsupported-type",
+      `Unsupported file type${file.type ? ` (${file.type})` : ""}. Use JPEG, PNG, WebP, GIF, MP4 or WebM.`
+    );
+  }
+
+  const limit = isClip ? MAX_CLIP_FILE_SIZE : MAX_FILE_SIZE;
+  if (file.size > limit) {
+    return new ImageError(
+      "too-large",
+      `File is ${formatMegabytes(file.size)} MB; the limit is ${formatMegabytes(limit)} MB.`
+    );
+  }
+
+  return null;
+};
+
+/**
+ * Tells stills from animations and clips. Only GIFs are read in full, since
+ * their frames can't be counted any other way.
+ */
+export const detectMediaKind = async (file: File): Promise<MediaKind> => {
+  if (CLIP_TYPES.includes(file.type)) return "clip";
+  if (file.type === "image/jpeg") return "image";
+  const head = file.type === "image/gif" ? file : file.slice(0, ANIMATION_SNIFF_BYTES);
+  const bytes = new Uint8Array(await head.arrayBuffer());
+  return isAnimatedImage(bytes) ? "animation" : "image";
+};
+
+/**
+ * Normalizes anything thrown while processing into an {@link ImageError}.
+ */
+export const toImageError = (error: unknown): ImageError => {
+  if (error instanceof ImageError) return error;
+  return new ImageError(
+    "processing-failed",
+    error instanceof Error ? error.message : String(error)
+  );
+};
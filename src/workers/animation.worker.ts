@@ -0,0 +1,113 @@
+import { GIFEncoder, applyPalette, quantize } from "gifenc";
+import {
+  ANIMATION_MAX_DIMENSION,
+  MAX_ANIMATION_FRAMES,
+  applyEffectToPixels,
+  frameDelay,
+  type EffectSettings,
+} from "../lib";
+import { fitDimensions } from "../export";
+import { ImageError, toImageError, type ImageErrorReason } from "../validation";
+
+export interface AnimationRequest {
+  source: Blob;
+  settings: EffectSettings;
+}
+
+export type AnimationResponse =
+  | { type: "progress"; progress: number }
+  | { type: "done"; blob: Blob; trimmed: boolean }
+  | { type: "error"; reason: ImageErrorReason; message: string };
+
+const post = (message: AnimationResponse) => self.postMessage(message);
+
+// GIF loop counts: -1 plays once, 0 loops forever
+const gifRepeat = (repetitionCount: number) =>
+  !Number.isFinite(repetitionCount) ? 0 : repetitionCount === 0 ? -1 : repetitionCount;
+
+self.addEventListener("message", async (e: MessageEvent<AnimationRequest>) => {
+  const { source, settings } = e.data;
+
+  try {
+    if (typeof ImageDecoder === "undefined") {
+      throw new ImageError(
+        "decode-failed",
+        "This browser can't read animation frames. Try a recent Chrome or Edge."
+      );
+    }
+    post({ type: "progress", progress: 0 });
+
+    const decoder = new ImageDecoder({ data: source.stream(), type: source.type });
+    try {
+      await decoder.tracks.ready;
+      // The frame count is only final once the whole file is read
+      await decoder.completed;
+    } catch {
+      decoder.close();
+      throw new ImageError(
+        "decode-failed",
+        "The animation couldn't be decoded. The file may be damaged."
+      );
+    }
+    const track = decoder.tracks.selectedTrack;
+    if (!track) {
+      decoder.close();
+      throw new ImageError("decode-failed", "The file holds no image frames.");
+    }
+
+    const total = Math.min(track.frameCount, MAX_ANIMATION_FRAMES);
+    const repeat = gifRepeat(track.repetitionCount);
+    const gif = GIFEncoder();
+    let ctx: OffscreenCanvasRenderingContext2D | null = null;
+
+    try {
+      for (let i = 0; i < total; i++) {
+        const { image } = await decoder.decode({ frameIndex: i });
+        if (!ctx) {
+          const { width, height } = fitDimensions(
+            image.displayWidth,
+            image.displayHeight,
+            ANIMATION_MAX_DIMENSION
+          );
+          ctx = new OffscreenCanvas(width, height).getContext("2d", {
+            willReadFrequently: true,
+          });
+          if (!ctx) throw new ImageError("processing-failed", "Couldn't create a canvas.");
+        }
+        const { width, height } = ctx.canvas;
+        ctx.clearRect(0, 0, width, height);
+        ctx.drawImage(image, 0, 0, width, height);
+        const delay = frameDelay(image.duration);
+        image.close();
+
+        const { data } = ctx.getImageData(0, 0, width, height);
+        applyEffectToPixels(data, settings);
+        const palette = quantize(data, 256, { format: "rgba4444", oneBitAlpha: true });
+        const index = applyPalette(data, palette, "rgba4444");
+        const transparentIndex = palette.findIndex((color) => color[3] === 0);
+        gif.writeFrame(index, width, height, {
+          palette,
+          delay,
+          repeat,
+          transparent: transparentIndex >= 0,
+          transparentIndex: Math.max(0, transparentIndex),
+          // Clear transparent frames so the previous one doesn't show through
+          dispose: transparentIndex >= 0 ? 2 : 1,
+        });
+        post({ type: "progress", progress: (i + 1) / total });
+      }
+    } finally {
+      decoder.close();
+    }
+
+    gif.finish();
+    post({
+      type: "done",
+      blob: new Blob([gif.bytes()], { type: "image/gif" }),
+      trimmed: track.frameCount > total,
+    });
+  } catch (error) {
+    const { reason, message } = toImageError(error);
+    post({ type: "error", reason, message });
+  }
+});
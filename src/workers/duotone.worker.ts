@@ -0,0 +1,174 @@
+import {
+  applyCropTransform,
+  applyEffect,
+  compositeMasked,
+  coverageRows,
+  cropRegion,
+  imageStrips,
+  isCropActive,
+  isMaskActive,
+  renderMask,
+  type Coverage,
+  type CropSettings,
+  type EffectSettings,
+  type MaskSettings,
+  type WorkingColorSpace,
+} from "../lib";
+import { fitCanvasToDevice, type CanvasLimits } from "../canvas-limits";
+import { encodeCanvas, readColorSpace } from "../encode";
+import { readExifFromBlob } from "../exif";
+import { fitDimensions, type EncodeOptions } from "../export";
+import {
+  applyOrientationTransform,
+  browserAppliesOrientation,
+  isTransposed,
+} from "../orientation";
+import { ImageError, toImageError, type ImageErrorReason } from "../validation";
+
+export interface DuotoneRequest {
+  source: Blob;
+  settings: EffectSettings;
+  encodeOptions: EncodeOptions;
+  /** Rotation, flips and crop applied before the effect; null keeps the frame */
+  crop: CropSettings | null;
+  /** Limits the effect to part of the image; null covers everything */
+  mask: MaskSettings | null;
+  /** Canvas cap found by earlier jobs, so the probe isn't repeated */
+  canvasLimits: CanvasLimits;
+}
+
+export type DuotoneResponse =
+  | { type: "progress"; progress: number }
+  | { type: "warning"; message: string }
+  | { type: "canvas-limits"; limits: CanvasLimits }
+  | { type: "done"; blob: Blob }
+  | { type: "error"; reason: ImageErrorReason; message: string };
+
+const post = (message: DuotoneResponse) => self.postMessage(message);
+
+// Decoding and encoding are reported as the first and last slices of the bar
+const DECODE_SHARE = 0.1;
+const PIXEL_SHARE = 0.8;
+
+// Masks on huge images are rendered at most this big and scaled per strip;
+// feathered edges don't need more
+const MASK_MAX_DIMENSION = 4096;
+
+const renderCoverage = (mask: MaskSettings, width: number, height: number): Coverage => {
+  const size = fitDimensions(width, height, MASK_MAX_DIMENSION);
+  const ctx = new OffscreenCanvas(size.width, size.height).getContext("2d");
+  if (!ctx) throw new ImageError("processing-failed", "Couldn't create a canvas for the mask.");
+  return { data: renderMask(ctx, mask, size.width, size.height), ...size };
+};
+
+self.addEventListener("message", async (e: MessageEvent<DuotoneRequest>) => {
+  const { source, settings, encodeOptions, crop, mask, canvasLimits } = e.data;
+
+  try {
+    post({ type: "progress", progress: 0 });
+    // Metadata is optional: an unreadable block shouldn't stop the render
+    const exif = await readExifFromBlob(source).catch(() => null);
+    // Wide-gamut photos are processed in their own space so nothing clips
+    const colorSpace: WorkingColorSpace =
+      encodeOptions.wideGamut && (await readColorSpace(source)) === "display-p3"
+        ? "display-p3"
+        : "srgb";
+    const bitmap = await createImageBitmap(source, {
+      imageOrientation: "from-image",
+    }).catch(() => {
+      throw new ImageError(
+        "decode-failed",
+        "The image couldn't be decoded. The file may be damaged."
+      );
+    });
+
+    // Rotate by hand only where the browser ignored the EXIF orientation
+    const orientation = exif?.orientation ?? 1;
+    const rotateManually =
+      orientation > 1 && !(await browserAppliesOrientation());
+    const transposed = rotateManually && isTransposed(orientation);
+
+    const uprightWidth = transposed ? bitmap.height : bitmap.width;
+    const uprightHeight = transposed ? bitmap.width : bitmap.height;
+    const region = isCropActive(crop)
+      ? cropRegion(uprightWidth, uprightHeight, crop)
+      : { x: 0, y: 0, width: uprightWidth, height: uprightHeight };
+    const target = fitDimensions(region.width, region.height, encodeOptions.maxDimension);
+
+    const tooLarge = new ImageError(
+      "canvas-too-large",
+      `The image is ${target.width}×${target.height}, more than this device can process. Choose a smaller max size in the export options or use a smaller photo.`
+    );
+    // Scale down to what the device can hold instead of failing outright
+    const fitted = fitCanvasToDevice(target.width, target.height, canvasLimits);
+    if (!fitted) {
+      bitmap.close();
+      throw tooLarge;
+    }
+    if (fitted.limits.fits !== canvasLimits.fits || fitted.limits.cap !== canvasLimits.cap) {
+      post({ type: "canvas-limits", limits: fitted.limits });
+    }
+    const { width, height } = fitted;
+    if (width < target.width) {
+      post({
+        type: "warning",
+        message: `This device can't process ${target.width}×${target.height} pixels at once, so the image was scaled down to ${width}×${height}. Choose a max size in the export options to pick the size yourself.`,
+      });
+    }
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext("2d", { colorSpace });
+    if (!ctx) throw tooLarge;
+
+    // JPEG has no alpha channel; flatten onto white rather than black
+    if (encodeOptions.format === "jpeg") {
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = "high";
+    // Transforms stack outside in: output scale, then the user's crop, then
+    // the EXIF orientation
+    ctx.save();
+    ctx.scale(width / region.width, height / region.height);
+    if (isCropActive(crop)) {
+      applyCropTransform(ctx, crop, uprightWidth, uprightHeight);
+    }
+    if (rotateManually) {
+      applyOrientationTransform(ctx, orientation, bitmap.width, bitmap.height);
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    ctx.restore();
+    bitmap.close();
+    post({ type: "progress", progress: DECODE_SHARE });
+
+    // Stream through the canvas in strips so no pixel buffer grows with the image
+    const coverage = isMaskActive(mask) ? renderCoverage(mask, width, height) : null;
+    const strips = imageStrips(width, height);
+    strips.forEach(({ y, rows }, index) => {
+      let strip: ImageData;
+      try {
+        strip = ctx.getImageData(0, y, width, rows);
+      } catch {
+        // Allocation failures surface as RangeError when memory runs out
+        throw tooLarge;
+      }
+      const original = coverage ? strip.data.slice() : null;
+      applyEffect(strip, settings, (fraction) =>
+        post({
+          type: "progress",
+          progress: DECODE_SHARE + ((index + fraction) / strips.length) * PIXEL_SHARE,
+        })
+      );
+      if (coverage && original) {
+        compositeMasked(original, strip.data, coverageRows(coverage, width, height, y, rows));
+      }
+      ctx.putImageData(strip, 0, y);
+    });
+
+    const blob = await encodeCanvas(canvas, colorSpace, encodeOptions, exif);
+    post({ type: "done", blob });
+  } catch (error) {
+    const { reason, message } = toImageError(error);
+    post({ type: "error", reason, message });
+  }
+});
@@ -0,0 +1,35 @@
+import { zipSync, type Zippable } from "fflate";
+
+export interface ZipEntry {
+  name: string;
+  blob: Blob;
+}
+
+// Appends " (2)", " (3)"... before the extension until the name is free
+const uniqueName = (name: string, taken: Set<string>) => {
+  if (!taken.has(name)) return name;
+  const dot = name.lastIndexOf(".");
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : "";
+  let n = 2;
+  while (taken.has(`${base} (${n})${ext}`)) n++;
+  return `${base} (${n})${ext}`;
+};
+
+/**
+ * Bundles blobs into a ZIP archive entirely in memory.
+ * Entries are stored uncompressed: encoded images don't shrink any further
+ * and skipping deflate keeps large batches fast.
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const files: Zippable = {};
+  const taken = new Set<string>();
+
+  for (const entry of entries) {
+    const name = uniqueName(entry.name, taken);
+    taken.add(name);
+    files[name] = [new Uint8Array(await entry.blob.arrayBuffer()), { level: 0 }];
+  }
+
+  return new Blob([zipSync(files)], { type: "application/zip" });
+};
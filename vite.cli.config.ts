@@ -0,0 +1,20 @@
+import { builtinModules } from "node:module";
+import { defineConfig } from "vite";
+
+// Bundles the Node CLI on its own; it shares src/lib with the web app
+export default defineConfig({
+  build: {
+    ssr: "cli/brave-pink.ts",
+    outDir: "dist/cli",
+    emptyOutDir: false,
+    copyPublicDir: false,
+    target: "node20",
+    rollupOptions: {
+      external: ["sharp", "tinyglobby", ...builtinModules.map((m) => `node:${m}`)],
+      output: {
+        entryFileNames: "brave-pink.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});